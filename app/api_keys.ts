@@ -0,0 +1,94 @@
+import { createHash, randomBytes } from "crypto";
+import { findApiKey, insertApiKey, listApiKeyRows, touchApiKey, type ApiKeyRow } from "./storage.ts";
+
+export const apiKeyScopeValues = ["messages:read", "stats:read", "metrics:read", "admin"] as const;
+export type ApiKeyScope = (typeof apiKeyScopeValues)[number];
+
+export type ApiKey = {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+};
+
+export type ApiKeyCheck =
+  | { ok: true; key: ApiKey }
+  | { ok: false; reason: "missing" | "invalid" | "revoked" | "insufficient_scope"; keyId: string | null };
+
+// `lk_<id>_<secret>`: the id is public and identifies the key in logs; only
+// a hash of the secret is stored.
+const KEY_PATTERN = /^lk_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+// A last_used_at write per request would serialise reads on SQLite.
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    scopes: row.scopes.split(" ").filter(Boolean) as ApiKeyScope[],
+    created_at: row.created_at,
+    last_used_at: row.last_used_at,
+    revoked_at: row.revoked_at,
+  };
+}
+
+/** Creates a key and returns it with the plaintext token, which is not stored. */
+export function createApiKey(name: string, scopes: ApiKeyScope[]): { key: ApiKey; token: string } {
+  const id = randomBytes(6).toString("hex");
+  const secret = randomBytes(32).toString("base64url");
+  const row = insertApiKey({
+    id,
+    name,
+    secret_hash: hashSecret(secret),
+    scopes: [...new Set(scopes)].join(" "),
+  });
+  return { key: toApiKey(row), token: `lk_${id}_${secret}` };
+}
+
+export function listApiKeys(): ApiKey[] {
+  return listApiKeyRows().map(toApiKey);
+}
+
+/** `admin` grants every scope. */
+export function hasScope(key: ApiKey, scope: ApiKeyScope): boolean {
+  return key.scopes.includes("admin") || key.scopes.includes(scope);
+}
+
+/**
+ * Resolves an `Authorization: Bearer lk_...` header to a key holding
+ * `scope`. The secret is compared by hash, so timing reveals nothing useful.
+ */
+export function authenticateApiKey(
+  header: string | null,
+  scope: ApiKeyScope,
+  now: Date = new Date()
+): ApiKeyCheck {
+  const bearer = header ? /^Bearer\s+(\S+)\s*$/i.exec(header) : null;
+  if (!bearer) return { ok: false, reason: "missing", keyId: null };
+  const match = KEY_PATTERN.exec(bearer[1]!);
+  if (!match) return { ok: false, reason: "invalid", keyId: null };
+
+  const id = match[1]!;
+  const secret = match[2]!;
+  const row = findApiKey(id);
+  if (!row || row.secret_hash !== hashSecret(secret)) {
+    return { ok: false, reason: "invalid", keyId: null };
+  }
+  if (row.revoked_at) return { ok: false, reason: "revoked", keyId: id };
+
+  const key = toApiKey(row);
+  if (!hasScope(key, scope)) return { ok: false, reason: "insufficient_scope", keyId: id };
+
+  const lastUsed = key.last_used_at ? Date.parse(key.last_used_at) : 0;
+  if (now.getTime() - lastUsed >= LAST_USED_RESOLUTION_MS) {
+    touchApiKey(id, now.toISOString());
+  }
+  return { ok: true, key };
+}
@@ -1,21 +1,447 @@
+import fs from "fs";
+import type net from "net";
+import path from "path";
+import { z } from "zod";
+import { webhookIngestModeValues, type InboxOptions, type WebhookIngestMode } from "./inbox.ts";
+import { DEFAULT_LIMITS, type Limits } from "./limits.ts";
+import { DEFAULT_LATENCY_BUCKETS_SEC } from "./metrics.ts";
+import { parseAllowList, type RateLimit } from "./rate_limit.ts";
+import type { WebhookKey } from "./security.ts";
+import {
+  DEFAULT_SQLITE_OPTIONS,
+  sqliteJournalModeValues,
+  sqliteSynchronousValues,
+  type SqliteOptions,
+} from "./storage.ts";
+import { tracingExporterValues, type TracingExporterKind } from "./tracing.ts";
+
+export const logLevelValues = ["DEBUG", "INFO", "ERROR"] as const;
+
+export type LogLevel = (typeof logLevelValues)[number];
+
 export type AppConfig = {
+  host: string;
+  port: number;
   databaseUrl: string;
-  webhookSecret: string | null;
-  logLevel: "DEBUG" | "INFO";
+  autoMigrate: boolean;
+  sqlite: SqliteOptions;
+  /** How long shutdown waits for in-flight requests before cutting them off. */
+  shutdownTimeoutSec: number;
+  webhookKeys: WebhookKey[];
+  metaAppSecret: string | null;
+  metaVerifyToken: string | null;
+  twilioAuthToken: string | null;
+  publicBaseUrl: string | null;
+  requireSignatureTimestamp: boolean;
+  signatureToleranceSec: number;
+  logLevel: LogLevel;
+  /**
+   * Check every JSON response against its OpenAPI schema and answer 500 on a
+   * mismatch. On by default when `NODE_ENV=test`.
+   */
+  validateResponses: boolean;
+  /** Largest accepted request bodies, in bytes. */
+  bodyLimits: {
+    webhookBytes: number;
+    batchBytes: number;
+  };
+  /** Most items accepted in one `/webhook/batch` request. */
+  batchMaxItems: number;
+  /**
+   * Answer 409 when a `message_id` is reused with different content. Either
+   * way the conflict is recorded and the stored message is kept.
+   */
+  rejectConflicts: boolean;
+  /** Whether `/webhook` stores payloads itself or queues them for the inbox worker. */
+  webhookIngestMode: WebhookIngestMode;
+  inbox: InboxOptions;
+  limits: Limits;
+  /** Messages older than this many days are purged; null keeps them forever. */
+  retentionDays: number | null;
+  retentionIntervalSec: number;
+  /** Per client IP on every webhook route; null disables the limit. */
+  webhookIpRateLimit: RateLimit | null;
+  /** Per sender number on `/webhook`; null disables the limit. */
+  webhookFromRateLimit: RateLimit | null;
+  /** Clients exempt from webhook rate limits, e.g. provider egress ranges. */
+  webhookAllowList: net.BlockList;
+  /** Express `trust proxy` setting, so `req.ip` is the real client behind a proxy. */
+  trustProxy: string | null;
+  /** Upper bounds, in seconds, of the HTTP latency histogram buckets. */
+  metricsLatencyBuckets: number[];
+  /** Where request spans go; `otlpEndpoint` is the full OTLP/HTTP `/v1/traces` URL. */
+  tracing: {
+    exporter: TracingExporterKind;
+    otlpEndpoint: string | null;
+    serviceName: string;
+  };
 };
 
-const DEFAULT_DB_URL = "sqlite:////data/app.db";
+/** Raised for any invalid setting; the message is meant for the operator. */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+const booleanSetting = z
+  .string()
+  .toLowerCase()
+  .pipe(z.enum(["true", "false"], { error: "must be true or false" }))
+  .transform((v) => v === "true");
+
+const positiveSetting = z.coerce.number().positive();
+
+const nonNegativeSetting = z.coerce.number().nonnegative();
+
+const countSetting = z.coerce.number().int().positive();
+
+const BYTE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+/** A byte size: a plain number of bytes or e.g. `100kb`, `20mb`. */
+const byteSizeSetting = z
+  .string()
+  .regex(/^\d+(\.\d+)?\s*(b|kb|mb|gb)?$/i, "must be a size such as 102400, 100kb or 20mb")
+  .transform((raw) => {
+    const [, amount, unit] = /^([\d.]+)\s*([a-z]*)$/i.exec(raw)!;
+    return Math.floor(Number(amount) * BYTE_UNITS[(unit || "b").toLowerCase()]!);
+  })
+  .pipe(z.number().int().positive());
+
+const jsonSetting = z.string().transform((raw, ctx) => {
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    ctx.addIssue({ code: "custom", message: "must be valid JSON" });
+    return z.NEVER;
+  }
+});
+
+const keyringSchema = z
+  .array(
+    z.object({
+      id: z.string().min(1),
+      secret: z.string().min(1),
+      not_before: z.iso.datetime().optional(),
+      expires_at: z.iso.datetime().optional(),
+    })
+  )
+  .refine((keys) => new Set(keys.map((k) => k.id)).size === keys.length, {
+    message: "key ids must be unique",
+  });
+
+const latencyBucketsSetting = z
+  .string()
+  .transform((raw) => raw.split(",").map((b) => Number(b.trim())))
+  .pipe(z.array(z.number().positive("buckets must be positive seconds")).min(1));
+
+const allowListSetting = z.string().superRefine((raw, ctx) => {
+  try {
+    parseAllowList(raw);
+  } catch (err) {
+    ctx.addIssue({ code: "custom", message: (err as Error).message });
+  }
+});
+
+/**
+ * Every setting, keyed by its environment variable. Values arrive as strings
+ * (from the environment or flattened from the config file) and are coerced
+ * and validated here; unset settings take the defaults below.
+ */
+const settingsSchema = z
+  .object({
+    HOST: z.string().default("0.0.0.0"),
+    PORT: z.coerce.number().int().min(1).max(65535).default(8000),
+    DATABASE_URL: z.string().default("sqlite:////data/app.db"),
+    DB_AUTO_MIGRATE: booleanSetting.default(true),
+    DB_ALLOW_MEMORY_FALLBACK: booleanSetting.default(DEFAULT_SQLITE_OPTIONS.allowMemoryFallback),
+    SQLITE_JOURNAL_MODE: z
+      .string()
+      .toLowerCase()
+      .pipe(z.enum(sqliteJournalModeValues))
+      .default(DEFAULT_SQLITE_OPTIONS.journalMode),
+    SQLITE_SYNCHRONOUS: z
+      .string()
+      .toLowerCase()
+      .pipe(z.enum(sqliteSynchronousValues))
+      .default(DEFAULT_SQLITE_OPTIONS.synchronous),
+    SQLITE_BUSY_TIMEOUT_MS: z.coerce
+      .number()
+      .int()
+      .nonnegative()
+      .default(DEFAULT_SQLITE_OPTIONS.busyTimeoutMs),
+    // Docker waits 10s after SIGTERM before killing the container.
+    SHUTDOWN_TIMEOUT_SEC: positiveSetting.default(8),
+    LOG_LEVEL: z.string().toUpperCase().pipe(z.enum(logLevelValues)).default("INFO"),
+    NODE_ENV: z.string().default("production"),
+    VALIDATE_RESPONSES: booleanSetting.optional(),
+
+    // `WEBHOOK_SECRETS` holds the keyring as JSON, e.g.
+    // `[{"id":"2024-06","secret":"...","expires_at":"2024-07-01T00:00:00Z"}]`.
+    // A plain `WEBHOOK_SECRET` is still accepted and becomes key `default`.
+    WEBHOOK_SECRET: z.string().optional(),
+    WEBHOOK_SECRETS: jsonSetting.pipe(keyringSchema).optional(),
+    WEBHOOK_REQUIRE_TIMESTAMP: booleanSetting.default(false),
+    WEBHOOK_TIMESTAMP_TOLERANCE_SEC: positiveSetting.default(300),
+    META_APP_SECRET: z.string().optional(),
+    META_VERIFY_TOKEN: z.string().optional(),
+    TWILIO_AUTH_TOKEN: z.string().optional(),
+    // Twilio signs the public URL it called; behind a proxy that differs
+    // from what Express sees, so allow it to be pinned explicitly.
+    PUBLIC_BASE_URL: z.url().optional(),
+
+    WEBHOOK_BODY_LIMIT: byteSizeSetting.default(100 * 1024),
+    WEBHOOK_BATCH_BODY_LIMIT: byteSizeSetting.default(20 * 1024 ** 2),
+    WEBHOOK_BATCH_MAX_ITEMS: countSetting.default(5000),
+    WEBHOOK_REJECT_CONFLICTS: booleanSetting.default(false),
+    WEBHOOK_INGEST_MODE: z
+      .string()
+      .toLowerCase()
+      .pipe(z.enum(webhookIngestModeValues))
+      .default("sync"),
+    INBOX_MAX_ATTEMPTS: countSetting.default(5),
+    INBOX_RETRY_BASE_SEC: positiveSetting.default(1),
+    INBOX_RETRY_MAX_SEC: positiveSetting.default(300),
+    INBOX_POLL_INTERVAL_MS: countSetting.default(250),
+    INBOX_BATCH_SIZE: countSetting.default(100),
+    PAGE_SIZE_MAX: countSetting.default(DEFAULT_LIMITS.pageSizeMax),
+    PAGE_SIZE_DEFAULT: countSetting.default(DEFAULT_LIMITS.pageSizeDefault),
+    TEXT_MAX_LENGTH: countSetting.default(DEFAULT_LIMITS.textMaxLength),
+
+    RETENTION_DAYS: positiveSetting.optional(),
+    RETENTION_INTERVAL_SEC: positiveSetting.default(3600),
+
+    // `<PREFIX>_PER_SEC` and `<PREFIX>_BURST`; a rate of 0 turns the limit off.
+    WEBHOOK_RATE_LIMIT_IP_PER_SEC: nonNegativeSetting.default(20),
+    WEBHOOK_RATE_LIMIT_IP_BURST: nonNegativeSetting.default(100),
+    WEBHOOK_RATE_LIMIT_FROM_PER_SEC: nonNegativeSetting.default(1),
+    WEBHOOK_RATE_LIMIT_FROM_BURST: nonNegativeSetting.default(20),
+    WEBHOOK_RATE_LIMIT_ALLOWLIST: allowListSetting.default(""),
+    TRUST_PROXY: z.string().optional(),
+
+    METRICS_LATENCY_BUCKETS: latencyBucketsSetting.default(DEFAULT_LATENCY_BUCKETS_SEC),
 
-export function loadConfig(): AppConfig {
-  const databaseUrl = (Bun.env.DATABASE_URL ?? DEFAULT_DB_URL).trim();
-  const secret = Bun.env.WEBHOOK_SECRET?.trim() ?? null;
-  const rawLogLevel = (Bun.env.LOG_LEVEL ?? "INFO").toUpperCase();
-  const logLevel = rawLogLevel === "DEBUG" ? "DEBUG" : "INFO";
+    // The OTLP endpoint follows the OpenTelemetry variables:
+    // `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT` as-is, or
+    // `OTEL_EXPORTER_OTLP_ENDPOINT` with `/v1/traces` appended.
+    TRACING_EXPORTER: z.string().toLowerCase().pipe(z.enum(tracingExporterValues)).default("log"),
+    OTEL_EXPORTER_OTLP_ENDPOINT: z.url().optional(),
+    OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: z.url().optional(),
+    OTEL_SERVICE_NAME: z.string().default("lyftr-webhook"),
+  })
+  .superRefine((s, ctx) => {
+    if (s.PAGE_SIZE_DEFAULT > s.PAGE_SIZE_MAX) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["PAGE_SIZE_DEFAULT"],
+        message: "must not exceed PAGE_SIZE_MAX",
+      });
+    }
+    if (
+      s.TRACING_EXPORTER === "otlp" &&
+      !s.OTEL_EXPORTER_OTLP_ENDPOINT &&
+      !s.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["TRACING_EXPORTER"],
+        message: "otlp needs OTEL_EXPORTER_OTLP_ENDPOINT or OTEL_EXPORTER_OTLP_TRACES_ENDPOINT",
+      });
+    }
+  });
 
+export type Settings = z.output<typeof settingsSchema>;
+
+type SettingName = keyof Settings;
+
+const settingNames = Object.keys(settingsSchema.shape) as SettingName[];
+
+const SECRET_SETTINGS: SettingName[] = [
+  "WEBHOOK_SECRET",
+  "META_APP_SECRET",
+  "META_VERIFY_TOKEN",
+  "TWILIO_AUTH_TOKEN",
+];
+
+const REDACTED = "[redacted]";
+
+/**
+ * Reads a JSON or TOML config file whose keys are setting names (matched
+ * case-insensitively, e.g. `port = 8080`). Structured values such as the
+ * `WEBHOOK_SECRETS` keyring may be written natively.
+ */
+function readConfigFile(file: string): Record<string, string> {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, "utf8");
+  } catch (err) {
+    throw new ConfigError(`cannot read config file ${file}: ${(err as Error).message}`);
+  }
+
+  const extension = path.extname(file).toLowerCase();
+  let data: unknown;
+  try {
+    if (extension === ".toml") data = Bun.TOML.parse(text);
+    else if (extension === ".json") data = JSON.parse(text);
+    else throw new Error("use a .json or .toml file");
+  } catch (err) {
+    throw new ConfigError(`cannot parse config file ${file}: ${(err as Error).message}`);
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new ConfigError(`config file ${file} must contain a table of settings`);
+  }
+
+  const values: Record<string, string> = {};
+  const unknown: string[] = [];
+  for (const [key, value] of Object.entries(data)) {
+    const name = key.toUpperCase();
+    if (!(settingNames as string[]).includes(name)) {
+      unknown.push(key);
+      continue;
+    }
+    values[name] = typeof value === "object" && value !== null ? JSON.stringify(value) : String(value);
+  }
+  if (unknown.length > 0) {
+    throw new ConfigError(`unknown settings in ${file}: ${unknown.join(", ")}`);
+  }
+  return values;
+}
+
+/** `--config <file>` on the command line wins over `CONFIG_FILE`. */
+function configFilePath(env: Record<string, string | undefined>, argv: string[]): string | null {
+  const flag = argv.indexOf("--config");
+  if (flag >= 0) {
+    const file = argv[flag + 1];
+    if (!file) throw new ConfigError("--config needs a file path");
+    return file;
+  }
+  return env.CONFIG_FILE?.trim() || null;
+}
+
+/**
+ * Resolves every setting from, in increasing precedence: the defaults, the
+ * optional config file and the environment. Blank environment variables
+ * count as unset. Throws `ConfigError` listing every invalid setting.
+ */
+export function loadSettings(
+  env: Record<string, string | undefined> = Bun.env,
+  argv: string[] = process.argv.slice(2)
+): Settings {
+  const file = configFilePath(env, argv);
+  const raw: Record<string, string> = file ? readConfigFile(file) : {};
+  for (const name of settingNames) {
+    const value = env[name]?.trim();
+    if (value) raw[name] = value;
+  }
+
+  const parsed = settingsSchema.safeParse(raw);
+  if (!parsed.success) {
+    const source = file ? ` (environment and ${file})` : "";
+    throw new ConfigError(`invalid configuration${source}:\n${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+function rateLimit(ratePerSec: number, burst: number): RateLimit | null {
+  return ratePerSec === 0 ? null : { ratePerSec, burst: Math.max(1, burst) };
+}
+
+function webhookKeys(settings: Settings): WebhookKey[] {
+  const keys: WebhookKey[] = (settings.WEBHOOK_SECRETS ?? []).map((k) => ({
+    id: k.id,
+    secret: k.secret,
+    notBefore: k.not_before ? Date.parse(k.not_before) : null,
+    expiresAt: k.expires_at ? Date.parse(k.expires_at) : null,
+  }));
+  const legacySecret = settings.WEBHOOK_SECRET;
+  if (legacySecret && !keys.some((k) => k.id === "default")) {
+    keys.push({ id: "default", secret: legacySecret, notBefore: null, expiresAt: null });
+  }
+  return keys;
+}
+
+export function configFromSettings(settings: Settings): AppConfig {
+  const otlpBase = settings.OTEL_EXPORTER_OTLP_ENDPOINT?.replace(/\/+$/, "");
   return {
-    databaseUrl,
-    webhookSecret: secret && secret.length > 0 ? secret : null,
-    logLevel,
+    host: settings.HOST,
+    port: settings.PORT,
+    databaseUrl: settings.DATABASE_URL,
+    autoMigrate: settings.DB_AUTO_MIGRATE,
+    sqlite: {
+      journalMode: settings.SQLITE_JOURNAL_MODE,
+      synchronous: settings.SQLITE_SYNCHRONOUS,
+      busyTimeoutMs: settings.SQLITE_BUSY_TIMEOUT_MS,
+      allowMemoryFallback: settings.DB_ALLOW_MEMORY_FALLBACK,
+    },
+    shutdownTimeoutSec: settings.SHUTDOWN_TIMEOUT_SEC,
+    webhookKeys: webhookKeys(settings),
+    metaAppSecret: settings.META_APP_SECRET ?? null,
+    metaVerifyToken: settings.META_VERIFY_TOKEN ?? null,
+    twilioAuthToken: settings.TWILIO_AUTH_TOKEN ?? null,
+    publicBaseUrl: settings.PUBLIC_BASE_URL?.replace(/\/+$/, "") ?? null,
+    requireSignatureTimestamp: settings.WEBHOOK_REQUIRE_TIMESTAMP,
+    signatureToleranceSec: settings.WEBHOOK_TIMESTAMP_TOLERANCE_SEC,
+    logLevel: settings.LOG_LEVEL,
+    validateResponses: settings.VALIDATE_RESPONSES ?? settings.NODE_ENV === "test",
+    bodyLimits: {
+      webhookBytes: settings.WEBHOOK_BODY_LIMIT,
+      batchBytes: settings.WEBHOOK_BATCH_BODY_LIMIT,
+    },
+    batchMaxItems: settings.WEBHOOK_BATCH_MAX_ITEMS,
+    rejectConflicts: settings.WEBHOOK_REJECT_CONFLICTS,
+    webhookIngestMode: settings.WEBHOOK_INGEST_MODE,
+    inbox: {
+      maxAttempts: settings.INBOX_MAX_ATTEMPTS,
+      retryBaseSec: settings.INBOX_RETRY_BASE_SEC,
+      retryMaxSec: settings.INBOX_RETRY_MAX_SEC,
+      pollIntervalMs: settings.INBOX_POLL_INTERVAL_MS,
+      batchSize: settings.INBOX_BATCH_SIZE,
+    },
+    limits: {
+      pageSizeMax: settings.PAGE_SIZE_MAX,
+      pageSizeDefault: settings.PAGE_SIZE_DEFAULT,
+      textMaxLength: settings.TEXT_MAX_LENGTH,
+    },
+    retentionDays: settings.RETENTION_DAYS ?? null,
+    retentionIntervalSec: settings.RETENTION_INTERVAL_SEC,
+    webhookIpRateLimit: rateLimit(
+      settings.WEBHOOK_RATE_LIMIT_IP_PER_SEC,
+      settings.WEBHOOK_RATE_LIMIT_IP_BURST
+    ),
+    webhookFromRateLimit: rateLimit(
+      settings.WEBHOOK_RATE_LIMIT_FROM_PER_SEC,
+      settings.WEBHOOK_RATE_LIMIT_FROM_BURST
+    ),
+    webhookAllowList: parseAllowList(settings.WEBHOOK_RATE_LIMIT_ALLOWLIST),
+    trustProxy: settings.TRUST_PROXY ?? null,
+    metricsLatencyBuckets: settings.METRICS_LATENCY_BUCKETS,
+    tracing: {
+      exporter: settings.TRACING_EXPORTER,
+      otlpEndpoint:
+        settings.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ?? (otlpBase ? `${otlpBase}/v1/traces` : null),
+      serviceName: settings.OTEL_SERVICE_NAME,
+    },
   };
 }
 
+export function loadConfig(
+  env: Record<string, string | undefined> = Bun.env,
+  argv: string[] = process.argv.slice(2)
+): AppConfig {
+  return configFromSettings(loadSettings(env, argv));
+}
+
+/** The effective settings for `--print-config`, with every secret replaced. */
+export function redactSettings(settings: Settings): Record<string, unknown> {
+  // Unset optional settings are shown as null rather than left out.
+  const redacted: Record<string, unknown> = {};
+  for (const name of settingNames) redacted[name] = settings[name] ?? null;
+  for (const name of SECRET_SETTINGS) {
+    if (redacted[name] !== null) redacted[name] = REDACTED;
+  }
+  if (settings.WEBHOOK_SECRETS) {
+    redacted.WEBHOOK_SECRETS = settings.WEBHOOK_SECRETS.map((k) => ({ ...k, secret: REDACTED }));
+  }
+  return redacted;
+}
@@ -0,0 +1,53 @@
+import type { StoredMessage } from "./models.ts";
+
+export const exportFormatValues = ["ndjson", "csv"] as const;
+export type ExportFormat = (typeof exportFormatValues)[number];
+
+export const exportContentTypes: Record<ExportFormat, string> = {
+  ndjson: "application/x-ndjson; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+};
+
+// media/location/contacts vary by type, so CSV carries them as one JSON column.
+const CSV_COLUMNS = [
+  "message_id",
+  "from",
+  "to",
+  "ts",
+  "type",
+  "text",
+  "content",
+  "status",
+  "created_at",
+] as const;
+
+/** RFC 4180: quote fields containing a delimiter, quote or line break. */
+export function csvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  const str = String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+function csvRow(fields: (string | number | null | undefined)[]): string {
+  return `${fields.map(csvField).join(",")}\r\n`;
+}
+
+export function exportHeader(format: ExportFormat): string {
+  return format === "csv" ? csvRow([...CSV_COLUMNS]) : "";
+}
+
+export function exportLine(format: ExportFormat, message: StoredMessage): string {
+  if (format === "ndjson") return `${JSON.stringify(message)}\n`;
+  const content = message.media ?? message.location ?? message.contacts;
+  return csvRow([
+    message.message_id,
+    message.from,
+    message.to,
+    message.ts,
+    message.type,
+    message.text,
+    content ? JSON.stringify(content) : null,
+    message.status,
+    message.created_at,
+  ]);
+}
@@ -0,0 +1,240 @@
+import fs from "fs";
+import { z } from "zod";
+import { mediaTypeValues, webhookMessageSchema, type WebhookMessage } from "./models.ts";
+
+export type ImportFormat = "ndjson" | "csv";
+
+export type ImportCounts = {
+  created: number;
+  duplicate: number;
+  /** Records whose `message_id` was already stored with different content. */
+  conflict: number;
+  invalid: number;
+};
+
+export type ImportRecord =
+  | { index: number; ok: true; message: WebhookMessage }
+  | { index: number; ok: false; error: string };
+
+/** Picks the format from the file extension; anything but `.csv` is NDJSON. */
+export function detectFormat(file: string): ImportFormat {
+  return file.toLowerCase().endsWith(".csv") ? "csv" : "ndjson";
+}
+
+/**
+ * Incremental RFC 4180 parser: quoted fields may contain delimiters, doubled
+ * quotes and line breaks, so rows cannot simply be split on newlines.
+ */
+export class CsvReader {
+  private row: string[] = [];
+  private field = "";
+  private quoted = false;
+  // A quote just closed inside a quoted field; the next char decides.
+  private pendingQuote = false;
+  private fieldStarted = false;
+
+  push(chunk: string): string[][] {
+    const rows: string[][] = [];
+    for (const ch of chunk) {
+      if (this.quoted) {
+        if (this.pendingQuote) {
+          this.pendingQuote = false;
+          if (ch === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.quoted = false;
+        } else if (ch === '"') {
+          this.pendingQuote = true;
+          continue;
+        } else {
+          this.field += ch;
+          continue;
+        }
+      }
+      if (ch === '"' && !this.fieldStarted) {
+        this.quoted = true;
+        this.fieldStarted = true;
+      } else if (ch === ",") {
+        this.endField();
+      } else if (ch === "\n") {
+        this.endRow(rows);
+      } else if (ch !== "\r") {
+        this.field += ch;
+        this.fieldStarted = true;
+      }
+    }
+    return rows;
+  }
+
+  end(): string[][] {
+    const rows: string[][] = [];
+    if (this.pendingQuote) {
+      this.pendingQuote = false;
+      this.quoted = false;
+    }
+    if (this.fieldStarted || this.row.length > 0) this.endRow(rows);
+    return rows;
+  }
+
+  private endField() {
+    this.row.push(this.field);
+    this.field = "";
+    this.fieldStarted = false;
+  }
+
+  private endRow(rows: string[][]) {
+    this.endField();
+    // Blank lines carry no record.
+    if (this.row.length > 1 || this.row[0] !== "") rows.push(this.row);
+    this.row = [];
+  }
+}
+
+/**
+ * Rebuilds a webhook payload from a CSV row. Only `message_id`, `from`, `to`
+ * and `ts` are required; `type`, `text` and `content` follow the columns of
+ * `GET /messages/export`, and unknown columns (status, created_at) are ignored.
+ */
+export function recordFromCsv(header: string[], fields: string[]): unknown {
+  const row: Record<string, string> = {};
+  header.forEach((name, i) => {
+    const value = fields[i];
+    if (value !== undefined && value !== "") row[name] = value;
+  });
+
+  const record: Record<string, unknown> = {
+    message_id: row.message_id,
+    from: row.from,
+    to: row.to,
+    ts: row.ts,
+    type: row.type,
+    text: row.text,
+  };
+  if (row.content !== undefined) {
+    const type = row.type ?? "text";
+    const key = (mediaTypeValues as readonly string[]).includes(type) ? "media" : type;
+    // Unparseable JSON is passed through as a string and fails validation.
+    try {
+      record[key] = JSON.parse(row.content);
+    } catch {
+      record[key] = row.content;
+    }
+  }
+  return record;
+}
+
+function describeError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+/**
+ * `/messages/export` writes absent fields as null (`"text": null`), which the
+ * webhook schema rejects, so they are dropped before validation.
+ */
+function withoutNulls(raw: unknown): unknown {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return raw;
+  return Object.fromEntries(Object.entries(raw).filter(([, value]) => value !== null));
+}
+
+/**
+ * Streams `file` and yields each record validated against
+ * `webhookMessageSchema`, numbered from 1 in file order. Reading is chunked,
+ * so dumps larger than memory are fine.
+ */
+export async function* readImportRecords(
+  file: string,
+  format: ImportFormat
+): AsyncGenerator<ImportRecord> {
+  const csv = new CsvReader();
+  let header: string[] | null = null;
+  let pending = "";
+  let index = 0;
+
+  const toRecord = (raw: unknown): ImportRecord => {
+    index += 1;
+    const parsed = webhookMessageSchema.safeParse(raw);
+    return parsed.success
+      ? { index, ok: true, message: parsed.data }
+      : { index, ok: false, error: describeError(parsed.error) };
+  };
+
+  function* fromNdjsonLines(lines: string[]): Generator<ImportRecord> {
+    for (const line of lines) {
+      if (line.trim() === "") continue;
+      let raw: unknown;
+      try {
+        raw = JSON.parse(line);
+      } catch {
+        index += 1;
+        yield { index, ok: false, error: "invalid JSON" };
+        continue;
+      }
+      yield toRecord(withoutNulls(raw));
+    }
+  }
+
+  function* fromCsvRows(rows: string[][]): Generator<ImportRecord> {
+    for (const row of rows) {
+      if (!header) {
+        header = row.map((name) => name.trim());
+        continue;
+      }
+      yield toRecord(recordFromCsv(header, row));
+    }
+  }
+
+  const decoder = new TextDecoder();
+  for await (const chunk of fs.createReadStream(file)) {
+    const text = decoder.decode(chunk as Uint8Array, { stream: true });
+    if (format === "csv") {
+      yield* fromCsvRows(csv.push(text));
+    } else {
+      const lines = (pending + text).split("\n");
+      pending = lines.pop() ?? "";
+      yield* fromNdjsonLines(lines);
+    }
+  }
+  const tail = decoder.decode();
+  if (format === "csv") {
+    yield* fromCsvRows([...csv.push(tail), ...csv.end()]);
+  } else {
+    yield* fromNdjsonLines([pending + tail]);
+  }
+}
+
+/**
+ * Progress saved after every committed batch. `processed` records have been
+ * written (or rejected); a resumed run skips them. Re-sending a few records
+ * after a crash is harmless because ingestion is idempotent on message_id.
+ */
+export type ImportCheckpoint = {
+  file: string;
+  size: number;
+  mode: string;
+  processed: number;
+  counts: ImportCounts;
+};
+
+export function checkpointPath(file: string): string {
+  return `${file}.import-checkpoint.json`;
+}
+
+export function readCheckpoint(file: string): ImportCheckpoint | null {
+  const target = checkpointPath(file);
+  if (!fs.existsSync(target)) return null;
+  return JSON.parse(fs.readFileSync(target, "utf8")) as ImportCheckpoint;
+}
+
+export function writeCheckpoint(checkpoint: ImportCheckpoint): void {
+  // Write-then-rename so an interruption never leaves a torn checkpoint.
+  const target = checkpointPath(checkpoint.file);
+  fs.writeFileSync(`${target}.tmp`, JSON.stringify(checkpoint));
+  fs.renameSync(`${target}.tmp`, target);
+}
+
+export function clearCheckpoint(file: string): void {
+  fs.rmSync(checkpointPath(file), { force: true });
+}
@@ -0,0 +1,197 @@
+import type { AppConfig } from "./config.ts";
+import { logJSON } from "./logging_utils.ts";
+import { recordInboxResult } from "./metrics.ts";
+import { webhookPayloadSchema } from "./models.ts";
+import {
+  completeInboxItem,
+  deadLetterInboxItem,
+  dueInboxItems,
+  insertMessage,
+  insertStatusEvent,
+  scheduleInboxRetry,
+  type DeadLetterReason,
+  type InboxRow,
+} from "./storage.ts";
+
+/**
+ * `sync` validates and stores `/webhook` payloads inside the request;
+ * `inbox` stores the verified raw body and answers 202 straight away.
+ */
+export const webhookIngestModeValues = ["sync", "inbox"] as const;
+
+export type WebhookIngestMode = (typeof webhookIngestModeValues)[number];
+
+export type InboxOptions = {
+  /** Storage attempts before an item is dead-lettered. */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled on each further attempt. */
+  retryBaseSec: number;
+  retryMaxSec: number;
+  pollIntervalMs: number;
+  /** Items processed per poll. */
+  batchSize: number;
+};
+
+export type InboxOutcome =
+  | {
+      result: "created" | "duplicate" | "conflict" | "status_recorded" | "status_duplicate";
+      messageId: string;
+    }
+  | { result: "retry_scheduled"; messageId: string; nextAttemptAt: string; error: string }
+  | {
+      result: "dead_lettered";
+      messageId?: string;
+      deadLetterId: number;
+      reason: DeadLetterReason;
+      error: string;
+    };
+
+/** Exponential backoff after the `attempts`-th failed attempt, capped at `retryMaxSec`. */
+export function retryDelayMs(attempts: number, options: InboxOptions): number {
+  return Math.min(options.retryBaseSec * 2 ** (attempts - 1), options.retryMaxSec) * 1000;
+}
+
+/**
+ * Parses, validates and stores one inbox item. A body that is not JSON or
+ * fails validation will never succeed, so it is dead-lettered at once; a
+ * storage error is retried with backoff until `maxAttempts` is reached.
+ */
+export function processInboxItem(
+  item: InboxRow,
+  options: InboxOptions,
+  now: Date = new Date()
+): InboxOutcome {
+  const attempts = item.attempts + 1;
+  const deadLetter = (
+    reason: DeadLetterReason,
+    error: string,
+    messageId?: string
+  ): InboxOutcome => ({
+    result: "dead_lettered",
+    messageId,
+    deadLetterId: deadLetterInboxItem(item, attempts, reason, error, now.toISOString()),
+    reason,
+    error,
+  });
+
+  let bodyJson: unknown;
+  try {
+    bodyJson = JSON.parse(item.body);
+  } catch {
+    return deadLetter("invalid_json", "invalid json");
+  }
+  const parsed = webhookPayloadSchema.safeParse(bodyJson);
+  if (!parsed.success) {
+    return deadLetter("validation_error", JSON.stringify(parsed.error.format()));
+  }
+
+  const payload = parsed.data;
+  const messageId = payload.message_id;
+  try {
+    const result = completeInboxItem(item.id, () => {
+      if (payload.type === "status") {
+        return insertStatusEvent(payload).dup ? "status_duplicate" : "status_recorded";
+      }
+      const inserted = insertMessage(payload, item.request_id);
+      return inserted.conflict ? "conflict" : inserted.dup ? "duplicate" : "created";
+    });
+    return { result, messageId };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    if (attempts >= options.maxAttempts) return deadLetter("retries_exhausted", error, messageId);
+    const nextAttemptAt = new Date(now.getTime() + retryDelayMs(attempts, options)).toISOString();
+    scheduleInboxRetry(item.id, attempts, nextAttemptAt, error);
+    return { result: "retry_scheduled", messageId, nextAttemptAt, error };
+  }
+}
+
+/** Processes up to `batchSize` due inbox items and returns how many were taken. */
+export function processInbox(
+  options: InboxOptions,
+  logLevel: AppConfig["logLevel"],
+  now: Date = new Date()
+): number {
+  const items = dueInboxItems(now.toISOString(), options.batchSize);
+  for (const item of items) {
+    const outcome = processInboxItem(item, options, now);
+    const lagMs = now.getTime() - Date.parse(item.received_at);
+    const fields = {
+      inbox_id: item.id,
+      request_id: item.request_id,
+      trace_id: item.trace_id,
+      message_id: outcome.messageId,
+      attempts: item.attempts + 1,
+    };
+    switch (outcome.result) {
+      case "retry_scheduled":
+        recordInboxResult(outcome.result, null);
+        logJSON(
+          "ERROR",
+          {
+            event: "inbox_retry_scheduled",
+            ...fields,
+            next_attempt_at: outcome.nextAttemptAt,
+            error: outcome.error,
+          },
+          logLevel
+        );
+        break;
+      case "dead_lettered":
+        recordInboxResult(outcome.result, lagMs / 1000);
+        logJSON(
+          "ERROR",
+          {
+            event: "inbox_dead_lettered",
+            ...fields,
+            dead_letter_id: outcome.deadLetterId,
+            reason: outcome.reason,
+            error: outcome.error,
+          },
+          logLevel
+        );
+        break;
+      default:
+        recordInboxResult(outcome.result, lagMs / 1000);
+        logJSON(
+          "INFO",
+          { event: "inbox_processed", ...fields, result: outcome.result, lag_ms: lagMs },
+          logLevel
+        );
+    }
+  }
+  return items.length;
+}
+
+export type InboxWorker = { stop(): void };
+
+/**
+ * Polls the inbox every `pollIntervalMs`, and again straight away after a
+ * full batch. It runs in either ingest mode, so items left over from
+ * `inbox` mode, or requeued dead letters, are still processed.
+ */
+export function startInboxWorker(config: AppConfig): InboxWorker {
+  const options = config.inbox;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const tick = () => {
+    let taken = 0;
+    try {
+      taken = processInbox(options, config.logLevel);
+    } catch (err) {
+      logJSON("ERROR", { event: "inbox_worker_failed", error: String(err) }, config.logLevel);
+    }
+    if (stopped) return;
+    timer = setTimeout(tick, taken === options.batchSize ? 0 : options.pollIntervalMs);
+    // The worker alone should not keep the process alive.
+    timer.unref();
+  };
+  tick();
+
+  return {
+    stop() {
+      stopped = true;
+      clearTimeout(timer);
+    },
+  };
+}
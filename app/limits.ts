@@ -0,0 +1,49 @@
+import type { z } from "zod";
+
+/**
+ * Size limits read by the request validators. They default to the values
+ * below and are replaced once at startup from the configuration.
+ */
+export type Limits = {
+  /** Largest `limit` accepted by the paginated list endpoints. */
+  pageSizeMax: number;
+  /** `limit` used when a list request does not pass one. */
+  pageSizeDefault: number;
+  /** Longest `text` accepted on a text message. */
+  textMaxLength: number;
+};
+
+export const DEFAULT_LIMITS: Readonly<Limits> = {
+  pageSizeMax: 100,
+  pageSizeDefault: 50,
+  textMaxLength: 4096,
+};
+
+export const limits: Limits = { ...DEFAULT_LIMITS };
+
+/** Call before serving traffic; validators read the new values on their next parse. */
+export function setLimits(next: Limits): void {
+  Object.assign(limits, next);
+}
+
+/**
+ * `.max()` for a bound that can change after the schema is built: checks
+ * `value` (a number, or a string's length) against `bound()` at parse time,
+ * with zod's usual "too big" issue.
+ */
+export function maxCheck(bound: () => number) {
+  return (ctx: z.core.ParsePayload<string | number>) => {
+    const maximum = bound();
+    const size = typeof ctx.value === "string" ? ctx.value.length : ctx.value;
+    if (size <= maximum) return;
+    ctx.issues.push({
+      code: "too_big",
+      origin: typeof ctx.value === "string" ? "string" : "number",
+      maximum,
+      inclusive: true,
+      input: ctx.value,
+      // Like zod's own checks, let object-level refinements still run.
+      continue: true,
+    });
+  };
+}
@@ -4,6 +4,7 @@ type RequestLogBase = {
   ts: string;
   level: LogLevel;
   request_id: string;
+  trace_id: string;
   method: string;
   path: string;
   status: number;
@@ -14,6 +15,10 @@ type WebhookLogExtras = {
   message_id?: string;
   dup?: boolean;
   result?: string;
+  provider?: string;
+  message_count?: number;
+  key_id?: string;
+  item_results?: Record<string, number>;
 };
 
 export function logJSON(
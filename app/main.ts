@@ -1,57 +1,315 @@
 import express from "express";
-import { loadConfig } from "./config.ts";
+import type http from "http";
+import { createHash } from "node:crypto";
+import { authenticateApiKey, type ApiKeyCheck, type ApiKeyScope } from "./api_keys.ts";
+import {
+  ConfigError,
+  configFromSettings,
+  loadSettings,
+  redactSettings,
+  type Settings,
+} from "./config.ts";
+import { exportContentTypes, exportHeader, exportLine } from "./export.ts";
+import { startInboxWorker, type InboxWorker } from "./inbox.ts";
+import { setLimits } from "./limits.ts";
 import { logRequest, logJSON } from "./logging_utils.ts";
 import {
+  recordErasure,
   recordHttpRequest,
-  recordLatency,
+  recordWebhookKeyUsage,
   recordWebhookResult,
+  registerRateLimiter,
   renderMetrics,
+  setLatencyBuckets,
 } from "./metrics.ts";
-import { webhookMessageSchema } from "./models.ts";
-import { isValidSignature } from "./security.ts";
-import { getStats, initDb, insertMessage, listMessages, pingDb } from "./storage.ts";
-
-const config = loadConfig();
-initDb(config.databaseUrl);
-
-type MessagesQuery = {
-  limit: number;
-  offset: number;
-  from?: string;
-  since?: string;
-  q?: string;
+import {
+  webhookMessageSchema,
+  webhookPayloadSchema,
+  webhookStatusSchema,
+  type WebhookMessage,
+  type WebhookStatusEvent,
+} from "./models.ts";
+import {
+  normalizeMetaPayload,
+  normalizeTwilioPayload,
+  type NormalizeResult,
+  type Provider,
+} from "./providers.ts";
+import {
+  isKeyActive,
+  isValidMetaSignature,
+  isValidTwilioSignature,
+  markSignatureUsed,
+  verifyWebhookSignature,
+  type SignatureCheck,
+  type SignatureVerification,
+} from "./security.ts";
+import {
+  closeDb,
+  discardDeadLetter,
+  enqueueInbox,
+  eraseContact,
+  getDeadLetter,
+  getInboxStats,
+  getMessageTimeseries,
+  getStats,
+  initDb,
+  insertMessage,
+  insertMessages,
+  insertStatusEvent,
+  insertStatusEvents,
+  InvalidSearchQueryError,
+  iterateMessages,
+  listConversations,
+  listDeadLetters,
+  listMessages,
+  pingDb,
+  requeueDeadLetter,
+  TimeseriesRangeError,
+} from "./storage.ts";
+import { buildOpenApiDocument, docsPage, validateResponses } from "./openapi.ts";
+import { encodeCursor } from "./pagination.ts";
+import { normalizePhone } from "./phone.ts";
+import {
+  parseConversationPair,
+  parseConversationsQuery,
+  parseDeadLettersQuery,
+  parseExportQuery,
+  parseIdParam,
+  parseMessagesQuery,
+  parseMsisdnParam,
+  parseStatsQuery,
+  parseTimeseriesQuery,
+} from "./queries.ts";
+import { isAllowListed, TokenBucketLimiter, type RateLimitDecision } from "./rate_limit.ts";
+import { startRetentionJob } from "./retention.ts";
+import { drainServer } from "./shutdown.ts";
+import {
+  createSpanExporter,
+  parseTraceparent,
+  RequestContext,
+  resolveRequestId,
+} from "./tracing.ts";
+
+let settings: Settings;
+try {
+  settings = loadSettings();
+} catch (err) {
+  if (!(err instanceof ConfigError)) throw err;
+  console.error(err.message);
+  process.exit(1);
+}
+
+// `bun run app/main.ts --print-config` shows the effective settings and exits.
+if (import.meta.main && process.argv.includes("--print-config")) {
+  console.log(JSON.stringify(redactSettings(settings), null, 2));
+  process.exit(0);
+}
+
+export const config = configFromSettings(settings);
+setLimits(config.limits);
+setLatencyBuckets(config.metricsLatencyBuckets);
+initDb(config.databaseUrl, { migrate: config.autoMigrate, ...config.sqlite });
+
+export const app = express();
+if (config.trustProxy) {
+  const hops = Number(config.trustProxy);
+  app.set(
+    "trust proxy",
+    config.trustProxy === "true" ? true : Number.isInteger(hops) ? hops : config.trustProxy
+  );
+}
+
+const webhookIpLimiter = config.webhookIpRateLimit
+  ? new TokenBucketLimiter(config.webhookIpRateLimit)
+  : null;
+const webhookFromLimiter = config.webhookFromRateLimit
+  ? new TokenBucketLimiter(config.webhookFromRateLimit)
+  : null;
+const spanExporter = createSpanExporter(config);
+const UNMATCHED_ROUTE = "<unmatched>";
+
+// Set once SIGTERM/SIGINT arrives; readiness fails and connections are not kept alive.
+let shuttingDown = false;
+let inFlightRequests = 0;
+
+/**
+ * Honours an incoming `X-Request-ID` and W3C `traceparent`, returns both on
+ * the response, and ends the request's server span once the response closes.
+ */
+app.use((req, res, next) => {
+  const ctx = new RequestContext(
+    spanExporter,
+    resolveRequestId(req.header("x-request-id")),
+    parseTraceparent(req.header("traceparent"))
+  );
+  res.locals.requestContext = ctx;
+  res.setHeader("X-Request-ID", ctx.requestId);
+  res.setHeader("traceparent", ctx.traceparent);
+  if (shuttingDown) res.setHeader("Connection", "close");
+  inFlightRequests += 1;
+  res.on("close", () => {
+    inFlightRequests -= 1;
+    const route: string = req.route?.path ?? UNMATCHED_ROUTE;
+    ctx.end(
+      `${req.method} ${route}`,
+      {
+        "http.request.method": req.method,
+        "http.route": route,
+        "url.path": req.path,
+        "http.response.status_code": res.statusCode,
+      },
+      res.statusCode >= 500 || !res.writableFinished
+    );
+  });
+  next();
+});
+
+function requestContext(res: express.Response): RequestContext {
+  return res.locals.requestContext as RequestContext;
+}
+
+// Must wrap `res.json` before any route handler runs.
+if (config.validateResponses) app.use(validateResponses(config.logLevel));
+
+if (webhookIpLimiter) registerRateLimiter("webhook_ip", webhookIpLimiter);
+if (webhookFromLimiter) registerRateLimiter("webhook_from", webhookFromLimiter);
+
+function hasActiveWebhookKey(): boolean {
+  const now = Date.now();
+  return config.webhookKeys.some((k) => isKeyActive(k, now));
+}
+
+const signatureRejectionDetail: Record<Exclude<SignatureCheck, "ok">, string> = {
+  invalid_signature: "invalid signature",
+  unknown_key: "unknown or inactive signature key",
+  timestamp_missing: "missing signature timestamp",
+  stale_timestamp: "signature timestamp outside tolerance",
+  replayed_signature: "signature already used",
 };
 
-const app = express();
+/**
+ * Checks `/webhook`-style signatures against the keyring. Key usage is only
+ * recorded for accepted requests, so replays cannot keep a retired key alive.
+ */
+function verifyGenericSignature(
+  req: express.Request,
+  signature: string | null,
+  rawBody: string
+): SignatureVerification {
+  const verification = verifyWebhookSignature(
+    {
+      signature,
+      timestamp: req.header("x-signature-timestamp") ?? null,
+      keyId: req.header("x-signature-key-id") ?? null,
+      rawBody,
+    },
+    config.webhookKeys,
+    {
+      requireTimestamp: config.requireSignatureTimestamp,
+      toleranceSec: config.signatureToleranceSec,
+    }
+  );
+  if (verification.result === "ok" && verification.keyId) {
+    recordWebhookKeyUsage(verification.keyId);
+  }
+  return verification;
+}
+
+const conflictDetail = "message_id already stored with different content";
+
+const jsonWebhookBody = express.raw({
+  type: "application/json",
+  limit: config.bodyLimits.webhookBytes,
+});
+
+function sendRateLimited(res: express.Response, retryAfterSec: number): void {
+  res.setHeader("Retry-After", String(retryAfterSec));
+  res.status(429).json({ detail: "rate limited", retry_after_sec: retryAfterSec });
+}
+
+/**
+ * Takes a token from the per-sender bucket for a message payload. Status
+ * events, bodies without a string `from` and allow-listed clients are not
+ * limited.
+ */
+function takeSenderToken(req: express.Request, payload: unknown): RateLimitDecision {
+  if (!webhookFromLimiter || isAllowListed(config.webhookAllowList, req.ip)) {
+    return { allowed: true };
+  }
+  if (typeof payload !== "object" || payload === null) return { allowed: true };
+  const { type, from } = payload as { type?: unknown; from?: unknown };
+  if (type === "status" || typeof from !== "string") return { allowed: true };
+  return webhookFromLimiter.take(normalizePhone(from) ?? from);
+}
+
+/**
+ * Per-IP token bucket in front of every webhook route, checked before the
+ * body is read or the signature verified. Allow-listed clients skip it.
+ */
+function limitWebhookClient(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+): void {
+  if (!webhookIpLimiter || isAllowListed(config.webhookAllowList, req.ip)) {
+    next();
+    return;
+  }
+  const decision = webhookIpLimiter.take(req.ip ?? "unknown");
+  if (decision.allowed) {
+    next();
+    return;
+  }
+
+  const ctx = requestContext(res);
+  const path = req.route?.path ?? req.path;
+  recordHttpRequest(req.method, path, 429, 0);
+  recordWebhookResult("rate_limited");
+  logRequest(
+    config.logLevel,
+    {
+      request_id: ctx.requestId,
+      trace_id: ctx.traceId,
+      method: req.method,
+      path,
+      status: 429,
+      latency_ms: 0,
+    },
+    { result: "rate_limited" }
+  );
+  sendRateLimited(res, decision.retryAfterSec);
+}
 
-app.post("/webhook", express.raw({ type: "application/json" }), (req, res) => {
-  const requestId = crypto.randomUUID();
+app.post("/webhook", limitWebhookClient, jsonWebhookBody, (req, res) => {
+  const ctx = requestContext(res);
   const start = performance.now();
   const path = "/webhook";
   let status = 200;
   let result = "created";
   let dup = false;
   let messageId: string | undefined;
+  let keyId: string | undefined;
 
   const finalize = () => {
     const latency = performance.now() - start;
-    recordHttpRequest(path, status);
-    recordLatency(latency);
+    recordHttpRequest(req.method, path, status, latency);
     logRequest(
       config.logLevel,
       {
-        request_id: requestId,
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
         method: req.method,
         path,
         status,
         latency_ms: Math.round(latency),
       },
-      { message_id: messageId, dup, result }
+      { message_id: messageId, dup, result, provider: "generic", key_id: keyId }
     );
   };
 
   try {
-    if (!config.webhookSecret) {
+    if (!hasActiveWebhookKey()) {
       status = 503;
       result = "secret_missing";
       res.status(status).json({ detail: "service not ready" });
@@ -62,10 +320,48 @@ app.post("/webhook", express.raw({ type: "application/json" }), (req, res) => {
     const rawBodyBuf = (req.body as Buffer | undefined) ?? Buffer.from("");
     const rawBody = rawBodyBuf.toString("utf8");
 
-    if (!isValidSignature(signature ?? null, config.webhookSecret, rawBody)) {
+    const verification = ctx.span("webhook.verify_signature", () =>
+      verifyGenericSignature(req, signature ?? null, rawBody)
+    );
+    keyId = verification.keyId ?? undefined;
+    if (verification.result !== "ok") {
       status = 401;
-      result = "invalid_signature";
-      res.status(status).json({ detail: "invalid signature" });
+      result = verification.result;
+      recordWebhookResult(result);
+      res.status(status).json({ detail: signatureRejectionDetail[verification.result] });
+      return;
+    }
+
+    // Validation is left to the inbox worker, but the per-sender limit
+    // depends on the client's IP, so it is enforced before enqueueing.
+    if (config.webhookIngestMode === "inbox") {
+      let queued: unknown = null;
+      try {
+        queued = JSON.parse(rawBody);
+      } catch {
+        // Nothing to limit on; the worker dead-letters the body.
+      }
+      const decision = takeSenderToken(req, queued);
+      if (!decision.allowed) {
+        status = 429;
+        result = "rate_limited";
+        recordWebhookResult(result);
+        sendRateLimited(res, decision.retryAfterSec);
+        return;
+      }
+      const inboxId = ctx.span("storage.enqueue_inbox", () =>
+        enqueueInbox({
+          body: rawBody,
+          request_id: ctx.requestId,
+          trace_id: ctx.traceId,
+          key_id: keyId ?? null,
+        })
+      );
+      markSignatureUsed(verification);
+      status = 202;
+      result = "queued";
+      recordWebhookResult(result);
+      res.status(status).json({ status: "accepted", result, inbox_id: inboxId });
       return;
     }
 
@@ -79,7 +375,7 @@ app.post("/webhook", express.raw({ type: "application/json" }), (req, res) => {
       return;
     }
 
-    const parsed = webhookMessageSchema.safeParse(bodyJson);
+    const parsed = ctx.span("webhook.validate", () => webhookPayloadSchema.safeParse(bodyJson));
     if (!parsed.success) {
       status = 422;
       result = "validation_error";
@@ -87,13 +383,38 @@ app.post("/webhook", express.raw({ type: "application/json" }), (req, res) => {
       return;
     }
 
-    const msg = parsed.data;
-    messageId = msg.message_id;
-    const { dup: isDuplicate } = insertMessage(msg);
-    dup = isDuplicate;
-    result = isDuplicate ? "duplicate" : "created";
+    const payload = parsed.data;
+    messageId = payload.message_id;
+    const decision = takeSenderToken(req, payload);
+    if (!decision.allowed) {
+      status = 429;
+      result = "rate_limited";
+      recordWebhookResult(result);
+      sendRateLimited(res, decision.retryAfterSec);
+      return;
+    }
+
+    if (payload.type === "status") {
+      const { dup: isDuplicate } = ctx.span("storage.insert_status_event", () =>
+        insertStatusEvent(payload)
+      );
+      dup = isDuplicate;
+      result = isDuplicate ? "status_duplicate" : "status_recorded";
+    } else {
+      const inserted = ctx.span("storage.insert_message", () =>
+        insertMessage(payload, ctx.requestId)
+      );
+      dup = inserted.dup;
+      result = inserted.conflict ? "conflict" : inserted.dup ? "duplicate" : "created";
+    }
+    markSignatureUsed(verification);
     recordWebhookResult(result);
-    res.status(200).json({ status: "ok" });
+    if (result === "conflict" && config.rejectConflicts) {
+      status = 409;
+      res.status(status).json({ detail: conflictDetail, result, message_id: messageId });
+      return;
+    }
+    res.status(200).json({ status: "ok", result });
   } catch (err) {
     status = 500;
     result = "error";
@@ -104,15 +425,496 @@ app.post("/webhook", express.raw({ type: "application/json" }), (req, res) => {
   }
 });
 
+type BatchItemResult =
+  | { index: number; message_id: string; status: "created" | "duplicate" | "conflict" }
+  | { index: number; message_id?: string; status: "validation_error"; errors: unknown };
+
+/**
+ * Accepts a JSON array of messages signed as a whole (same headers as
+ * `/webhook`). Valid items are inserted in one transaction; invalid items are
+ * reported alongside them instead of failing the batch.
+ */
+app.post(
+  "/webhook/batch",
+  limitWebhookClient,
+  express.raw({ type: "application/json", limit: config.bodyLimits.batchBytes }),
+  (req, res) => {
+    const ctx = requestContext(res);
+    const start = performance.now();
+    const path = "/webhook/batch";
+    let status = 200;
+    let result = "ok";
+    let keyId: string | undefined;
+    const counts = { created: 0, duplicate: 0, conflict: 0, validation_error: 0 };
+
+    const finalize = () => {
+      const latency = performance.now() - start;
+      recordHttpRequest(req.method, path, status, latency);
+      logRequest(
+        config.logLevel,
+        {
+          request_id: ctx.requestId,
+          trace_id: ctx.traceId,
+          method: req.method,
+          path,
+          status,
+          latency_ms: Math.round(latency),
+        },
+        {
+          result,
+          provider: "generic",
+          key_id: keyId,
+          message_count:
+            counts.created + counts.duplicate + counts.conflict + counts.validation_error,
+          item_results: counts,
+        }
+      );
+    };
+
+    try {
+      if (!hasActiveWebhookKey()) {
+        status = 503;
+        result = "secret_missing";
+        res.status(status).json({ detail: "service not ready" });
+        return;
+      }
+
+      const rawBody = ((req.body as Buffer | undefined) ?? Buffer.from("")).toString("utf8");
+      const verification = ctx.span("webhook.verify_signature", () =>
+        verifyGenericSignature(req, req.header("x-signature") ?? null, rawBody)
+      );
+      keyId = verification.keyId ?? undefined;
+      if (verification.result !== "ok") {
+        status = 401;
+        result = verification.result;
+        recordWebhookResult(result);
+        res.status(status).json({ detail: signatureRejectionDetail[verification.result] });
+        return;
+      }
+
+      let bodyJson: unknown;
+      try {
+        bodyJson = JSON.parse(rawBody);
+      } catch {
+        status = 422;
+        result = "validation_error";
+        res.status(status).json({ detail: "invalid json" });
+        return;
+      }
+
+      if (!Array.isArray(bodyJson)) {
+        status = 422;
+        result = "validation_error";
+        res.status(status).json({ detail: "body must be a JSON array of messages" });
+        return;
+      }
+      if (bodyJson.length > config.batchMaxItems) {
+        status = 413;
+        result = "too_large";
+        res.status(status).json({ detail: `at most ${config.batchMaxItems} items per batch` });
+        return;
+      }
+
+      const items: unknown[] = bodyJson;
+      const results: BatchItemResult[] = new Array(items.length);
+      const valid: { index: number; message: WebhookMessage }[] = [];
+      ctx.span(
+        "webhook.validate",
+        () =>
+          items.forEach((item, index) => {
+            const parsed = webhookMessageSchema.safeParse(item);
+            if (parsed.success) {
+              valid.push({ index, message: parsed.data });
+            } else {
+              const rawId = (item as { message_id?: unknown } | null)?.message_id;
+              results[index] = {
+                index,
+                message_id: typeof rawId === "string" ? rawId : undefined,
+                status: "validation_error",
+                errors: parsed.error.format(),
+              };
+            }
+          }),
+        { items: items.length }
+      );
+
+      const inserted = ctx.span(
+        "storage.insert_messages",
+        () => insertMessages(valid.map((v) => v.message), ctx.requestId),
+        { messages: valid.length }
+      );
+      markSignatureUsed(verification);
+      valid.forEach(({ index, message }, i) => {
+        const { dup: isDuplicate, conflict } = inserted[i]!;
+        results[index] = {
+          index,
+          message_id: message.message_id,
+          status: conflict ? "conflict" : isDuplicate ? "duplicate" : "created",
+        };
+      });
+
+      for (const item of results) {
+        counts[item.status] += 1;
+        recordWebhookResult(item.status);
+      }
+      res.status(status).json({ ...counts, results });
+    } catch (err) {
+      status = 500;
+      result = "error";
+      const message = err instanceof Error ? err.message : "unknown error";
+      res.status(status).json({ detail: message });
+    } finally {
+      finalize();
+    }
+  }
+);
+
+type IngestOutcome = {
+  status: number;
+  result: string;
+  body: unknown;
+  messageIds: string[];
+  dup: boolean;
+};
+
+/**
+ * Validates normalised provider messages against `webhookMessageSchema` and
+ * inserts them. Nothing is written unless every message validates, so a
+ * provider retry after a 422 cannot leave half a batch behind.
+ */
+function ingestNormalized(ctx: RequestContext, normalized: NormalizeResult): IngestOutcome {
+  if (!normalized.ok) {
+    return {
+      status: 422,
+      result: "validation_error",
+      body: normalized.error,
+      messageIds: [],
+      dup: false,
+    };
+  }
+
+  const validated = ctx.span("webhook.validate", () => validateNormalized(normalized));
+  if (!validated.ok) return validated.outcome;
+  const { messages, statuses } = validated;
+
+  if (messages.length === 0 && statuses.length === 0) {
+    return { status: 200, result: "ignored", body: { status: "ok" }, messageIds: [], dup: false };
+  }
+
+  let created = 0;
+  const conflicts: string[] = [];
+  const insertedMessages = ctx.span(
+    "storage.insert_messages",
+    () => insertMessages(messages, ctx.requestId),
+    { messages: messages.length }
+  );
+  insertedMessages.forEach(({ created: isCreated, dup: isDuplicate }, i) => {
+    if (isCreated) created += 1;
+    if (!isCreated && !isDuplicate) conflicts.push(messages[i]!.message_id);
+    recordWebhookResult(isCreated ? "created" : isDuplicate ? "duplicate" : "conflict");
+  });
+  const insertedStatuses = ctx.span(
+    "storage.insert_status_events",
+    () => insertStatusEvents(statuses),
+    { statuses: statuses.length }
+  );
+  for (const { dup: isDuplicate } of insertedStatuses) {
+    if (!isDuplicate) created += 1;
+    recordWebhookResult(isDuplicate ? "status_duplicate" : "status_recorded");
+  }
+
+  const messageIds = [...messages, ...statuses].map((m) => m.message_id);
+  // The callback's other messages are stored either way; a retry would hit the same conflict.
+  if (conflicts.length > 0) {
+    return config.rejectConflicts
+      ? {
+          status: 409,
+          result: "conflict",
+          body: { detail: conflictDetail, result: "conflict", message_ids: conflicts },
+          messageIds,
+          dup: false,
+        }
+      : { status: 200, result: "conflict", body: { status: "ok" }, messageIds, dup: false };
+  }
+  const result =
+    created === 0 ? "duplicate" : messages.length > 0 ? "created" : "status_recorded";
+  return {
+    status: 200,
+    result,
+    body: { status: "ok" },
+    messageIds,
+    dup: created === 0,
+  };
+}
+
+type ValidatedBatch =
+  | { ok: true; messages: WebhookMessage[]; statuses: WebhookStatusEvent[] }
+  | { ok: false; outcome: IngestOutcome };
+
+function validateNormalized(
+  normalized: Extract<NormalizeResult, { ok: true }>
+): ValidatedBatch {
+  const messages: WebhookMessage[] = [];
+  for (const candidate of normalized.messages) {
+    const parsed = webhookMessageSchema.safeParse(candidate);
+    if (!parsed.success) {
+      return {
+        ok: false,
+        outcome: {
+          status: 422,
+          result: "validation_error",
+          body: { message_id: candidate.message_id, errors: parsed.error.format() },
+          messageIds: [candidate.message_id],
+          dup: false,
+        },
+      };
+    }
+    messages.push(parsed.data);
+  }
+
+  const statuses: WebhookStatusEvent[] = [];
+  for (const candidate of normalized.statuses) {
+    const parsed = webhookStatusSchema.safeParse(candidate);
+    if (!parsed.success) {
+      return {
+        ok: false,
+        outcome: {
+          status: 422,
+          result: "validation_error",
+          body: { message_id: candidate.message_id, errors: parsed.error.format() },
+          messageIds: [candidate.message_id],
+          dup: false,
+        },
+      };
+    }
+    statuses.push(parsed.data);
+  }
+
+  return { ok: true, messages, statuses };
+}
+
+function webhookFinalizer(
+  req: express.Request,
+  path: string,
+  provider: Provider,
+  ctx: RequestContext,
+  start: number
+) {
+  return (status: number, result: string, messageIds: string[], dup: boolean) => {
+    const latency = performance.now() - start;
+    recordHttpRequest(req.method, path, status, latency);
+    logRequest(
+      config.logLevel,
+      {
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        method: req.method,
+        path,
+        status,
+        latency_ms: Math.round(latency),
+      },
+      {
+        message_id: messageIds.length === 1 ? messageIds[0] : undefined,
+        message_count: messageIds.length,
+        dup,
+        result,
+        provider,
+      }
+    );
+  };
+}
+
+// Meta calls this once with hub.* query params when the webhook is registered.
+app.get("/webhook/meta", (req, res) => {
+  const mode = req.query["hub.mode"];
+  const token = req.query["hub.verify_token"];
+  const challenge = req.query["hub.challenge"];
+  if (
+    config.metaVerifyToken &&
+    mode === "subscribe" &&
+    token === config.metaVerifyToken &&
+    typeof challenge === "string"
+  ) {
+    res.status(200).type("text/plain").send(challenge);
+    return;
+  }
+  res.status(403).json({ detail: "verification failed" });
+});
+
+app.post("/webhook/meta", limitWebhookClient, jsonWebhookBody, (req, res) => {
+  const path = "/webhook/meta";
+  const ctx = requestContext(res);
+  const finalize = webhookFinalizer(req, path, "meta", ctx, performance.now());
+  let status = 200;
+  let result = "created";
+  let messageIds: string[] = [];
+  let dup = false;
+
+  try {
+    if (!config.metaAppSecret) {
+      status = 503;
+      result = "secret_missing";
+      res.status(status).json({ detail: "service not ready" });
+      return;
+    }
+
+    const signature = req.header("x-hub-signature-256");
+    const rawBody = ((req.body as Buffer | undefined) ?? Buffer.from("")).toString("utf8");
+
+    const metaAppSecret = config.metaAppSecret;
+    const validSignature = ctx.span("webhook.verify_signature", () =>
+      isValidMetaSignature(signature ?? null, metaAppSecret, rawBody)
+    );
+    if (!validSignature) {
+      status = 401;
+      result = "invalid_signature";
+      res.status(status).json({ detail: "invalid signature" });
+      return;
+    }
+
+    let bodyJson: unknown;
+    try {
+      bodyJson = JSON.parse(rawBody);
+    } catch {
+      status = 422;
+      result = "validation_error";
+      res.status(status).json({ detail: "invalid json" });
+      return;
+    }
+
+    const outcome = ingestNormalized(ctx, normalizeMetaPayload(bodyJson));
+    ({ status, result, messageIds, dup } = outcome);
+    res.status(status).json(outcome.body);
+  } catch (err) {
+    status = 500;
+    result = "error";
+    const message = err instanceof Error ? err.message : "unknown error";
+    res.status(status).json({ detail: message });
+  } finally {
+    finalize(status, result, messageIds, dup);
+  }
+});
+
+const EMPTY_TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
+app.post(
+  "/webhook/twilio",
+  limitWebhookClient,
+  express.raw({
+    type: "application/x-www-form-urlencoded",
+    limit: config.bodyLimits.webhookBytes,
+  }),
+  (req, res) => {
+    const path = "/webhook/twilio";
+    const ctx = requestContext(res);
+    const finalize = webhookFinalizer(req, path, "twilio", ctx, performance.now());
+    let status = 200;
+    let result = "created";
+    let messageIds: string[] = [];
+    let dup = false;
+
+    try {
+      if (!config.twilioAuthToken) {
+        status = 503;
+        result = "secret_missing";
+        res.status(status).json({ detail: "service not ready" });
+        return;
+      }
+
+      const rawBody = ((req.body as Buffer | undefined) ?? Buffer.from("")).toString("utf8");
+      const params = new URLSearchParams(rawBody);
+      const baseUrl = config.publicBaseUrl ?? `${req.protocol}://${req.get("host")}`;
+      const signedUrl = `${baseUrl}${req.originalUrl}`;
+
+      const twilioAuthToken = config.twilioAuthToken;
+      const validSignature = ctx.span("webhook.verify_signature", () =>
+        isValidTwilioSignature(
+          req.header("x-twilio-signature") ?? null,
+          twilioAuthToken,
+          signedUrl,
+          params
+        )
+      );
+      if (!validSignature) {
+        status = 401;
+        result = "invalid_signature";
+        res.status(status).json({ detail: "invalid signature" });
+        return;
+      }
+
+      const outcome = ingestNormalized(ctx, normalizeTwilioPayload(params));
+      ({ status, result, messageIds, dup } = outcome);
+      if (status === 200) {
+        res.status(status).type("text/xml").send(EMPTY_TWIML);
+      } else {
+        res.status(status).json(outcome.body);
+      }
+    } catch (err) {
+      status = 500;
+      result = "error";
+      const message = err instanceof Error ? err.message : "unknown error";
+      res.status(status).json({ detail: message });
+    } finally {
+      finalize(status, result, messageIds, dup);
+    }
+  }
+);
+
 app.use(express.json());
 
+const authRejectionStatus: Record<Exclude<ApiKeyCheck, { ok: true }>["reason"], number> = {
+  missing: 401,
+  invalid: 401,
+  revoked: 401,
+  insufficient_scope: 403,
+};
+
+/**
+ * Requires an API key holding `scope` (see scripts/api_keys.ts). The key id
+ * is left in `res.locals.apiKeyId` for the route's request log.
+ */
+function requireScope(scope: ApiKeyScope): express.RequestHandler {
+  return (req, res, next) => {
+    const check = authenticateApiKey(req.header("Authorization") ?? null, scope);
+    if (check.ok) {
+      res.locals.apiKeyId = check.key.id;
+      next();
+      return;
+    }
+
+    const ctx = requestContext(res);
+    const status = authRejectionStatus[check.reason];
+    const path = req.route?.path ?? req.path;
+    recordHttpRequest(req.method, path, status, 0);
+    logRequest(
+      config.logLevel,
+      {
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        method: req.method,
+        path,
+        status,
+        latency_ms: 0,
+      },
+      { key_id: check.keyId ?? undefined, result: check.reason }
+    );
+    if (status === 401) res.setHeader("WWW-Authenticate", "Bearer");
+    res.status(status).json({
+      detail: status === 403 ? `API key lacks the ${scope} scope` : `API key ${check.reason}`,
+    });
+  };
+}
+
 app.get("/health/live", (_req, res) => {
   res.json({ status: "live" });
 });
 
 app.get("/health/ready", (_req, res) => {
-  const healthyDb = pingDb();
-  const hasSecret = Boolean(config.webhookSecret);
+  if (shuttingDown) {
+    return res.status(503).json({ status: "shutting-down" });
+  }
+  const healthyDb = requestContext(res).span("storage.ping", () => pingDb());
+  const hasSecret = hasActiveWebhookKey();
   const ready = healthyDb && hasSecret;
   if (!ready) {
     return res.status(503).json({ status: "not-ready", db: healthyDb, secret: hasSecret });
@@ -120,56 +922,59 @@ app.get("/health/ready", (_req, res) => {
   return res.json({ status: "ready" });
 });
 
-function parseMessagesQuery(url: URL): { ok: boolean; value?: MessagesQuery; error?: any } {
-  const limit = url.searchParams.get("limit");
-  const offset = url.searchParams.get("offset");
-  const from = url.searchParams.get("from") ?? undefined;
-  const since = url.searchParams.get("since") ?? undefined;
-  const q = url.searchParams.get("q") ?? undefined;
-
-  const limitNum = limit ? Number(limit) : 50;
-  const offsetNum = offset ? Number(offset) : 0;
+const openApiDocument = buildOpenApiDocument();
 
-  if (
-    Number.isNaN(limitNum) ||
-    limitNum < 1 ||
-    limitNum > 100 ||
-    Number.isNaN(offsetNum) ||
-    offsetNum < 0
-  ) {
-    return {
-      ok: false,
-      error: { status: 422, body: { detail: "limit must be 1-100 and offset must be >=0" } },
-    };
-  }
+/** Serves a fixed response and records it like any other route. */
+function sendDocument(
+  req: express.Request,
+  res: express.Response,
+  path: string,
+  send: () => void
+): void {
+  const ctx = requestContext(res);
+  const start = performance.now();
+  send();
+  const latency = performance.now() - start;
+  recordHttpRequest(req.method, path, res.statusCode, latency);
+  logRequest(config.logLevel, {
+    request_id: ctx.requestId,
+    trace_id: ctx.traceId,
+    method: req.method,
+    path,
+    status: res.statusCode,
+    latency_ms: Math.round(latency),
+  });
+}
 
-  if (since && !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/.test(since)) {
-    return { ok: false, error: { status: 422, body: { detail: "invalid since" } } };
-  }
+app.get("/openapi.json", (req, res) => {
+  sendDocument(req, res, "/openapi.json", () => res.json(openApiDocument));
+});
 
-  return {
-    ok: true,
-    value: { limit: limitNum, offset: offsetNum, from, since, q },
-  };
-}
+app.get("/docs", (req, res) => {
+  sendDocument(req, res, "/docs", () => res.type("html").send(docsPage));
+});
 
-app.get("/messages", (req, res) => {
-  const requestId = crypto.randomUUID();
+app.get("/messages", requireScope("messages:read"), (req, res) => {
+  const ctx = requestContext(res);
   const start = performance.now();
   const path = "/messages";
   let status = 200;
 
   const finalize = () => {
     const latency = performance.now() - start;
-    recordHttpRequest(path, status);
-    recordLatency(latency);
-    logRequest(config.logLevel, {
-      request_id: requestId,
-      method: req.method,
-      path,
-      status,
-      latency_ms: Math.round(latency),
-    });
+    recordHttpRequest(req.method, path, status, latency);
+    logRequest(
+      config.logLevel,
+      {
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        method: req.method,
+        path,
+        status,
+        latency_ms: Math.round(latency),
+      },
+      { key_id: res.locals.apiKeyId }
+    );
   };
 
   try {
@@ -180,9 +985,23 @@ app.get("/messages", (req, res) => {
       return;
     }
 
-    const { data, total } = listMessages(parsed.value!);
-    res.json({ data, total, limit: parsed.value!.limit, offset: parsed.value!.offset });
+    const { data, total, nextCursor, prevCursor } = ctx.span("storage.list_messages", () =>
+      listMessages(parsed.value)
+    );
+    res.json({
+      data,
+      total,
+      limit: parsed.value.limit,
+      offset: parsed.value.offset,
+      next_cursor: nextCursor ? encodeCursor(nextCursor) : null,
+      prev_cursor: prevCursor ? encodeCursor(prevCursor) : null,
+    });
   } catch (err) {
+    if (err instanceof InvalidSearchQueryError) {
+      status = 422;
+      res.status(status).json({ _errors: [], q: { _errors: [err.message] } });
+      return;
+    }
     status = 500;
     const message = err instanceof Error ? err.message : "unknown error";
     console.error("/messages handler error", err);
@@ -192,66 +1011,709 @@ app.get("/messages", (req, res) => {
   }
 });
 
-app.get("/stats", (req, res) => {
-  const requestId = crypto.randomUUID();
+/**
+ * Streams every matching message in time order. The body's SHA-256 and row
+ * count are sent as HTTP trailers once the last row is written, so a loader
+ * can tell a complete export from a truncated one.
+ */
+app.get("/messages/export", requireScope("messages:read"), async (req, res) => {
+  const ctx = requestContext(res);
   const start = performance.now();
-  const path = "/stats";
+  const path = "/messages/export";
   let status = 200;
 
   const finalize = () => {
     const latency = performance.now() - start;
-    recordHttpRequest(path, status);
-    recordLatency(latency);
-    logRequest(config.logLevel, {
-      request_id: requestId,
-      method: req.method,
-      path,
-      status,
-      latency_ms: Math.round(latency),
-    });
+    recordHttpRequest(req.method, path, status, latency);
+    logRequest(
+      config.logLevel,
+      {
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        method: req.method,
+        path,
+        status,
+        latency_ms: Math.round(latency),
+      },
+      { key_id: res.locals.apiKeyId }
+    );
   };
 
   try {
-    const stats = getStats();
-    res.json(stats);
+    const parsed = parseExportQuery(new URL(req.originalUrl, `http://${req.headers.host}`));
+    if (!parsed.ok) {
+      status = parsed.error.status;
+      res.status(status).json(parsed.error.body);
+      return;
+    }
+
+    const { format, filters } = parsed.value;
+    const rows = iterateMessages(filters);
+    // Read the first batch before committing to a 200 so query errors still get a JSON body.
+    let row = ctx.span("storage.iterate_messages", () => rows.next());
+
+    res.status(status);
+    res.setHeader("Content-Type", exportContentTypes[format]);
+    res.setHeader("Content-Disposition", `attachment; filename="messages.${format}"`);
+    res.setHeader("Trailer", "X-Export-SHA256, X-Export-Row-Count");
+
+    const hash = createHash("sha256");
+    const write = async (chunk: string) => {
+      hash.update(chunk);
+      if (res.write(chunk)) return;
+      // Wait for the client to catch up, or to go away.
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          res.off("drain", done);
+          res.off("close", done);
+          resolve();
+        };
+        res.on("drain", done);
+        res.on("close", done);
+      });
+    };
+
+    let count = 0;
+    await write(exportHeader(format));
+    while (!row.done) {
+      if (res.destroyed) return;
+      await write(exportLine(format, row.value));
+      count += 1;
+      row = rows.next();
+    }
+    res.addTrailers({ "X-Export-SHA256": hash.digest("hex"), "X-Export-Row-Count": String(count) });
+    res.end();
   } catch (err) {
+    if (res.headersSent) {
+      // Mid-stream failure: drop the connection so the missing trailers flag it.
+      status = 500;
+      console.error("/messages/export stream error", err);
+      res.destroy(err instanceof Error ? err : undefined);
+      return;
+    }
+    if (err instanceof InvalidSearchQueryError) {
+      status = 422;
+      res.status(status).json({ _errors: [], q: { _errors: [err.message] } });
+      return;
+    }
     status = 500;
     const message = err instanceof Error ? err.message : "unknown error";
-    console.error("/stats handler error", err);
+    console.error("/messages/export handler error", err);
     res.status(status).json({ detail: message });
   } finally {
     finalize();
   }
 });
 
-app.get("/metrics", (_req, res) => {
-  res.setHeader("Content-Type", "text/plain; version=0.0.4");
+app.get("/conversations", requireScope("messages:read"), (req, res) => {
+  const ctx = requestContext(res);
+  const start = performance.now();
+  const path = "/conversations";
+  let status = 200;
+
+  const finalize = () => {
+    const latency = performance.now() - start;
+    recordHttpRequest(req.method, path, status, latency);
+    logRequest(
+      config.logLevel,
+      {
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        method: req.method,
+        path,
+        status,
+        latency_ms: Math.round(latency),
+      },
+      { key_id: res.locals.apiKeyId }
+    );
+  };
+
+  try {
+    const parsed = parseConversationsQuery(new URL(req.originalUrl, `http://${req.headers.host}`));
+    if (!parsed.ok) {
+      status = parsed.error.status;
+      res.status(status).json(parsed.error.body);
+      return;
+    }
+
+    const { data, total } = ctx.span("storage.list_conversations", () =>
+      listConversations(parsed.value)
+    );
+    res.json({ data, total, limit: parsed.value.limit, offset: parsed.value.offset });
+  } catch (err) {
+    status = 500;
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.error("/conversations handler error", err);
+    res.status(status).json({ detail: message });
+  } finally {
+    finalize();
+  }
+});
+
+// Accepts the same query parameters as /messages, scoped to one thread.
+app.get("/conversations/:a/:b/messages", requireScope("messages:read"), (req, res) => {
+  const ctx = requestContext(res);
+  const start = performance.now();
+  const path = "/conversations/:a/:b/messages";
+  let status = 200;
+
+  const finalize = () => {
+    const latency = performance.now() - start;
+    recordHttpRequest(req.method, path, status, latency);
+    logRequest(
+      config.logLevel,
+      {
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        method: req.method,
+        path,
+        status,
+        latency_ms: Math.round(latency),
+      },
+      { key_id: res.locals.apiKeyId }
+    );
+  };
+
+  try {
+    const pair = parseConversationPair(req.params.a ?? "", req.params.b ?? "");
+    if (!pair.ok) {
+      status = pair.error.status;
+      res.status(status).json(pair.error.body);
+      return;
+    }
+    const parsed = parseMessagesQuery(new URL(req.originalUrl, `http://${req.headers.host}`));
+    if (!parsed.ok) {
+      status = parsed.error.status;
+      res.status(status).json(parsed.error.body);
+      return;
+    }
+
+    const filters = { ...parsed.value, participants: pair.value };
+    const { data, total, nextCursor, prevCursor } = ctx.span("storage.list_messages", () =>
+      listMessages(filters)
+    );
+    res.json({
+      participants: pair.value,
+      data,
+      total,
+      limit: filters.limit,
+      offset: filters.offset,
+      next_cursor: nextCursor ? encodeCursor(nextCursor) : null,
+      prev_cursor: prevCursor ? encodeCursor(prevCursor) : null,
+    });
+  } catch (err) {
+    if (err instanceof InvalidSearchQueryError) {
+      status = 422;
+      res.status(status).json({ _errors: [], q: { _errors: [err.message] } });
+      return;
+    }
+    status = 500;
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.error("/conversations/:a/:b/messages handler error", err);
+    res.status(status).json({ detail: message });
+  } finally {
+    finalize();
+  }
+});
+
+/**
+ * Right-to-erasure: deletes every message to or from the number, and any
+ * other stored payload naming it, and keeps a tombstone in `erasures`.
+ */
+app.delete("/contacts/:msisdn", requireScope("admin"), (req, res) => {
+  const ctx = requestContext(res);
+  const start = performance.now();
+  const path = "/contacts/:msisdn";
+  let status = 200;
+
+  const finalize = () => {
+    const latency = performance.now() - start;
+    recordHttpRequest(req.method, path, status, latency);
+    logRequest(
+      config.logLevel,
+      {
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        method: req.method,
+        path,
+        status,
+        latency_ms: Math.round(latency),
+      },
+      { key_id: res.locals.apiKeyId }
+    );
+  };
+
+  try {
+    const msisdn = parseMsisdnParam("msisdn", req.params.msisdn ?? "");
+    if (!msisdn.ok) {
+      status = msisdn.error.status;
+      res.status(status).json(msisdn.error.body);
+      return;
+    }
+
+    const erasure = ctx.span("storage.erase_contact", () =>
+      eraseContact(msisdn.value, ctx.requestId)
+    );
+    recordErasure(erasure);
+    logJSON(
+      "INFO",
+      {
+        event: "contact_erased",
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        erasure_id: erasure.erasure_id,
+        subject_hash: erasure.subject_hash,
+        messages_deleted: erasure.messages_deleted,
+        statuses_deleted: erasure.statuses_deleted,
+        conflicts_deleted: erasure.conflicts_deleted,
+        inbox_deleted: erasure.inbox_deleted,
+        dead_letters_deleted: erasure.dead_letters_deleted,
+      },
+      config.logLevel
+    );
+    res.json(erasure);
+  } catch (err) {
+    status = 500;
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.error("/contacts/:msisdn handler error", err);
+    res.status(status).json({ detail: message });
+  } finally {
+    finalize();
+  }
+});
+
+/** Inbox backlog and dead-letter count, plus the current ingest mode. */
+app.get("/admin/inbox", requireScope("admin"), (req, res) => {
+  const ctx = requestContext(res);
+  const start = performance.now();
+  const path = "/admin/inbox";
+  let status = 200;
+
+  const finalize = () => {
+    const latency = performance.now() - start;
+    recordHttpRequest(req.method, path, status, latency);
+    logRequest(
+      config.logLevel,
+      {
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        method: req.method,
+        path,
+        status,
+        latency_ms: Math.round(latency),
+      },
+      { key_id: res.locals.apiKeyId }
+    );
+  };
+
+  try {
+    const stats = ctx.span("storage.get_inbox_stats", () => getInboxStats());
+    res.json({ mode: config.webhookIngestMode, ...stats });
+  } catch (err) {
+    status = 500;
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.error("/admin/inbox handler error", err);
+    res.status(status).json({ detail: message });
+  } finally {
+    finalize();
+  }
+});
+
+app.get("/admin/dead-letters", requireScope("admin"), (req, res) => {
+  const ctx = requestContext(res);
+  const start = performance.now();
+  const path = "/admin/dead-letters";
+  let status = 200;
+
+  const finalize = () => {
+    const latency = performance.now() - start;
+    recordHttpRequest(req.method, path, status, latency);
+    logRequest(
+      config.logLevel,
+      {
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        method: req.method,
+        path,
+        status,
+        latency_ms: Math.round(latency),
+      },
+      { key_id: res.locals.apiKeyId }
+    );
+  };
+
+  try {
+    const parsed = parseDeadLettersQuery(new URL(req.originalUrl, `http://${req.headers.host}`));
+    if (!parsed.ok) {
+      status = parsed.error.status;
+      res.status(status).json(parsed.error.body);
+      return;
+    }
+
+    const { data, total } = ctx.span("storage.list_dead_letters", () =>
+      listDeadLetters(parsed.value)
+    );
+    res.json({ data, total, limit: parsed.value.limit, offset: parsed.value.offset });
+  } catch (err) {
+    status = 500;
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.error("/admin/dead-letters handler error", err);
+    res.status(status).json({ detail: message });
+  } finally {
+    finalize();
+  }
+});
+
+app.get("/admin/dead-letters/:id", requireScope("admin"), (req, res) => {
+  const ctx = requestContext(res);
+  const start = performance.now();
+  const path = "/admin/dead-letters/:id";
+  let status = 200;
+
+  const finalize = () => {
+    const latency = performance.now() - start;
+    recordHttpRequest(req.method, path, status, latency);
+    logRequest(
+      config.logLevel,
+      {
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        method: req.method,
+        path,
+        status,
+        latency_ms: Math.round(latency),
+      },
+      { key_id: res.locals.apiKeyId }
+    );
+  };
+
+  try {
+    const id = parseIdParam("id", req.params.id ?? "");
+    if (!id.ok) {
+      status = id.error.status;
+      res.status(status).json(id.error.body);
+      return;
+    }
+
+    const row = ctx.span("storage.get_dead_letter", () => getDeadLetter(id.value));
+    if (!row) {
+      status = 404;
+      res.status(status).json({ detail: "dead letter not found" });
+      return;
+    }
+    res.json(row);
+  } catch (err) {
+    status = 500;
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.error("/admin/dead-letters/:id handler error", err);
+    res.status(status).json({ detail: message });
+  } finally {
+    finalize();
+  }
+});
+
+/** Moves a dead letter back into the inbox; the worker picks it up on its next poll. */
+app.post("/admin/dead-letters/:id/requeue", requireScope("admin"), (req, res) => {
+  const ctx = requestContext(res);
+  const start = performance.now();
+  const path = "/admin/dead-letters/:id/requeue";
+  let status = 200;
+
+  const finalize = () => {
+    const latency = performance.now() - start;
+    recordHttpRequest(req.method, path, status, latency);
+    logRequest(
+      config.logLevel,
+      {
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        method: req.method,
+        path,
+        status,
+        latency_ms: Math.round(latency),
+      },
+      { key_id: res.locals.apiKeyId }
+    );
+  };
+
+  try {
+    const id = parseIdParam("id", req.params.id ?? "");
+    if (!id.ok) {
+      status = id.error.status;
+      res.status(status).json(id.error.body);
+      return;
+    }
+
+    const inboxId = ctx.span("storage.requeue_dead_letter", () => requeueDeadLetter(id.value));
+    if (inboxId === null) {
+      status = 404;
+      res.status(status).json({ detail: "dead letter not found" });
+      return;
+    }
+    logJSON(
+      "INFO",
+      {
+        event: "dead_letter_requeued",
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        dead_letter_id: id.value,
+        inbox_id: inboxId,
+        key_id: res.locals.apiKeyId,
+      },
+      config.logLevel
+    );
+    res.json({ id: id.value, status: "requeued", inbox_id: inboxId });
+  } catch (err) {
+    status = 500;
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.error("/admin/dead-letters/:id/requeue handler error", err);
+    res.status(status).json({ detail: message });
+  } finally {
+    finalize();
+  }
+});
+
+app.delete("/admin/dead-letters/:id", requireScope("admin"), (req, res) => {
+  const ctx = requestContext(res);
+  const start = performance.now();
+  const path = "/admin/dead-letters/:id";
+  let status = 200;
+
+  const finalize = () => {
+    const latency = performance.now() - start;
+    recordHttpRequest(req.method, path, status, latency);
+    logRequest(
+      config.logLevel,
+      {
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        method: req.method,
+        path,
+        status,
+        latency_ms: Math.round(latency),
+      },
+      { key_id: res.locals.apiKeyId }
+    );
+  };
+
+  try {
+    const id = parseIdParam("id", req.params.id ?? "");
+    if (!id.ok) {
+      status = id.error.status;
+      res.status(status).json(id.error.body);
+      return;
+    }
+
+    const discarded = ctx.span("storage.discard_dead_letter", () => discardDeadLetter(id.value));
+    if (!discarded) {
+      status = 404;
+      res.status(status).json({ detail: "dead letter not found" });
+      return;
+    }
+    logJSON(
+      "INFO",
+      {
+        event: "dead_letter_discarded",
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        dead_letter_id: id.value,
+        key_id: res.locals.apiKeyId,
+      },
+      config.logLevel
+    );
+    res.json({ id: id.value, status: "discarded" });
+  } catch (err) {
+    status = 500;
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.error("/admin/dead-letters/:id handler error", err);
+    res.status(status).json({ detail: message });
+  } finally {
+    finalize();
+  }
+});
+
+app.get("/stats", requireScope("stats:read"), (req, res) => {
+  const ctx = requestContext(res);
+  const start = performance.now();
+  const path = "/stats";
+  let status = 200;
+
+  const finalize = () => {
+    const latency = performance.now() - start;
+    recordHttpRequest(req.method, path, status, latency);
+    logRequest(
+      config.logLevel,
+      {
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        method: req.method,
+        path,
+        status,
+        latency_ms: Math.round(latency),
+      },
+      { key_id: res.locals.apiKeyId }
+    );
+  };
+
+  try {
+    const parsed = parseStatsQuery(new URL(req.originalUrl, `http://${req.headers.host}`));
+    if (!parsed.ok) {
+      status = parsed.error.status;
+      res.status(status).json(parsed.error.body);
+      return;
+    }
+
+    const stats = ctx.span("storage.get_stats", () => getStats(parsed.value));
+    res.json(stats);
+  } catch (err) {
+    status = 500;
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.error("/stats handler error", err);
+    res.status(status).json({ detail: message });
+  } finally {
+    finalize();
+  }
+});
+
+app.get("/stats/timeseries", requireScope("stats:read"), (req, res) => {
+  const ctx = requestContext(res);
+  const start = performance.now();
+  const path = "/stats/timeseries";
+  let status = 200;
+
+  const finalize = () => {
+    const latency = performance.now() - start;
+    recordHttpRequest(req.method, path, status, latency);
+    logRequest(
+      config.logLevel,
+      {
+        request_id: ctx.requestId,
+        trace_id: ctx.traceId,
+        method: req.method,
+        path,
+        status,
+        latency_ms: Math.round(latency),
+      },
+      { key_id: res.locals.apiKeyId }
+    );
+  };
+
+  try {
+    const parsed = parseTimeseriesQuery(new URL(req.originalUrl, `http://${req.headers.host}`));
+    if (!parsed.ok) {
+      status = parsed.error.status;
+      res.status(status).json(parsed.error.body);
+      return;
+    }
+
+    res.json(
+      ctx.span("storage.get_message_timeseries", () => getMessageTimeseries(parsed.value))
+    );
+  } catch (err) {
+    if (err instanceof TimeseriesRangeError) {
+      status = 422;
+      res.status(status).json({ _errors: [err.message] });
+      return;
+    }
+    status = 500;
+    const message = err instanceof Error ? err.message : "unknown error";
+    console.error("/stats/timeseries handler error", err);
+    res.status(status).json({ detail: message });
+  } finally {
+    finalize();
+  }
+});
+
+app.get("/metrics", requireScope("metrics:read"), (req, res) => {
+  const ctx = requestContext(res);
+  const start = performance.now();
+  res.setHeader("Content-Type", "text/plain; version=0.0.4");
   res.send(renderMetrics());
+  const latency = performance.now() - start;
+  recordHttpRequest(req.method, "/metrics", 200, latency);
+  logRequest(
+    config.logLevel,
+    {
+      request_id: ctx.requestId,
+      trace_id: ctx.traceId,
+      method: req.method,
+      path: "/metrics",
+      status: 200,
+      latency_ms: Math.round(latency),
+    },
+    { key_id: res.locals.apiKeyId }
+  );
 });
 
 app.use((req, res) => {
-  const requestId = crypto.randomUUID();
+  const ctx = requestContext(res);
   const start = performance.now();
   const status = 404;
-  const path = req.path;
   res.status(status).json({ detail: "Not found" });
   const latency = performance.now() - start;
-  recordHttpRequest(path, status);
-  recordLatency(latency);
+  // One label for every unknown path, so scanner probes cannot grow the series count.
+  recordHttpRequest(req.method, UNMATCHED_ROUTE, status, latency);
   logRequest(config.logLevel, {
-    request_id: requestId,
+    request_id: ctx.requestId,
+    trace_id: ctx.traceId,
     method: req.method,
-    path,
+    path: req.path,
     status,
     latency_ms: Math.round(latency),
   });
 });
 
+/**
+ * Stops taking new connections, lets in-flight requests finish (up to
+ * `SHUTDOWN_TIMEOUT_SEC`), then flushes spans, checkpoints and closes the
+ * database and exits. A second signal exits immediately. Items still in the
+ * inbox stay there and are processed after the next start.
+ */
+async function shutdown(
+  server: http.Server,
+  signal: NodeJS.Signals,
+  retentionJob: ReturnType<typeof setInterval> | null,
+  inboxWorker: InboxWorker
+): Promise<void> {
+  if (shuttingDown) {
+    logJSON("ERROR", { event: "shutdown_forced", signal }, config.logLevel);
+    process.exit(1);
+  }
+  shuttingDown = true;
+  logJSON(
+    "INFO",
+    {
+      event: "shutdown_started",
+      signal,
+      in_flight: inFlightRequests,
+      timeout_sec: config.shutdownTimeoutSec,
+    },
+    config.logLevel
+  );
+  if (retentionJob) clearInterval(retentionJob);
+
+  const { timedOut } = await drainServer(server, config.shutdownTimeoutSec * 1000);
+  inboxWorker.stop();
+  await spanExporter?.flush();
+  closeDb();
+  logJSON(
+    timedOut ? "ERROR" : "INFO",
+    { event: "shutdown_complete", signal, timed_out: timedOut },
+    config.logLevel
+  );
+  process.exit(timedOut ? 1 : 0);
+}
+
 export function startServer(): void {
-  const port = 8000;
-  app.listen(port, () => {
-    logJSON("INFO", { event: "server_started", port, framework: "express" }, config.logLevel);
+  const { host, port } = config;
+  const server = app.listen(port, host, () => {
+    logJSON("INFO", { event: "server_started", host, port, framework: "express" }, config.logLevel);
   });
+  const retentionJob = startRetentionJob(config);
+  const inboxWorker = startInboxWorker(config);
+  for (const signal of ["SIGTERM", "SIGINT"] as const) {
+    process.on(signal, () => void shutdown(server, signal, retentionJob, inboxWorker));
+  }
 }
 
 if (import.meta.main) {
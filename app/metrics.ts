@@ -1,57 +1,231 @@
-type Counter = Record<string, number>;
+import { Counter, CollectedGauge, Gauge, Histogram, Registry } from "./metrics_registry.ts";
+import type { TokenBucketLimiter } from "./rate_limit.ts";
+import { getDbStats, getInboxStats, type PurgeResult } from "./storage.ts";
 
-const httpRequests: Counter = {};
-const webhookResults: Counter = {};
-const latencyBuckets: Record<number, number> = { 100: 0, 500: 0, Infinity: 0 };
-let latencyCount = 0;
-let latencyTotal = 0;
+export const DEFAULT_LATENCY_BUCKETS_SEC = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
 
-export function recordHttpRequest(path: string, status: number): void {
-  const key = `${path}|${status}`;
-  httpRequests[key] = (httpRequests[key] ?? 0) + 1;
+const registry = new Registry();
+const startedAt = Date.now();
+
+const httpRequests = registry.register(
+  new Counter("http_requests_total", "HTTP requests by method, route template and status.", [
+    "method",
+    "path",
+    "status",
+  ])
+);
+const httpDuration = registry.register(
+  new Histogram(
+    "http_request_duration_seconds",
+    "HTTP request latency by method and route template.",
+    ["method", "path"],
+    DEFAULT_LATENCY_BUCKETS_SEC
+  )
+);
+const webhookResults = registry.register(
+  new Counter("webhook_requests_total", "Webhook outcomes (created, duplicate, rate_limited, ...).", [
+    "result",
+  ])
+);
+const webhookKeyMatches = registry.register(
+  new Counter("webhook_signature_key_matches_total", "Webhook signatures verified per keyring entry.", [
+    "key_id",
+  ])
+);
+const webhookKeyLastUsed = registry.register(
+  new Gauge("webhook_signature_key_last_used_seconds", "Unix time a keyring entry last verified a signature.", [
+    "key_id",
+  ])
+);
+const retentionPurgedMessages = registry.register(
+  new Counter("retention_purged_messages_total", "Messages deleted by the retention job.")
+);
+const retentionPurgedStatuses = registry.register(
+  new Counter("retention_purged_statuses_total", "Status events deleted by the retention job.")
+);
+const retentionPurgedConflicts = registry.register(
+  new Counter("retention_purged_conflicts_total", "Message conflicts deleted by the retention job.")
+);
+const retentionPurgedWebhookBodies = registry.register(
+  new Counter(
+    "retention_purged_webhook_bodies_total",
+    "Inbox items and dead letters deleted by the retention job."
+  )
+);
+const retentionLastRun = registry.register(
+  new Gauge("retention_last_run_seconds", "Unix time the retention job last completed.")
+);
+const erasures = registry.register(
+  new Counter("contact_erasures_total", "DELETE /contacts/:msisdn requests completed.")
+);
+const erasedMessages = registry.register(
+  new Counter("contact_erased_messages_total", "Messages deleted by contact erasure.")
+);
+const erasedStatuses = registry.register(
+  new Counter("contact_erased_statuses_total", "Status events deleted by contact erasure.")
+);
+const erasedConflicts = registry.register(
+  new Counter("contact_erased_conflicts_total", "Message conflicts deleted by contact erasure.")
+);
+const erasedWebhookBodies = registry.register(
+  new Counter(
+    "contact_erased_webhook_bodies_total",
+    "Inbox items and dead letters deleted by contact erasure."
+  )
+);
+const inboxResults = registry.register(
+  new Counter("inbox_processed_total", "Inbox items handled by the worker, by outcome.", ["result"])
+);
+const inboxLag = registry.register(
+  new Histogram(
+    "inbox_processing_lag_seconds",
+    "Time from accepting a webhook into the inbox to storing or dead-lettering it.",
+    [],
+    [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 300, 900, 3600]
+  )
+);
+
+const rateLimiters: Record<string, TokenBucketLimiter> = {};
+const limiterGauge = (name: string, help: string, read: (l: TokenBucketLimiter) => number) =>
+  registry.register(
+    new CollectedGauge(name, help, () =>
+      Object.entries(rateLimiters).map(([limit, limiter]) => ({ labels: { limit }, value: read(limiter) }))
+    )
+  );
+limiterGauge("rate_limit_per_second", "Configured token refill rate.", (l) => l.limit.ratePerSec);
+limiterGauge("rate_limit_burst", "Configured bucket size.", (l) => l.limit.burst);
+limiterGauge("rate_limit_tracked_keys", "Keys (IPs, numbers) currently tracked.", (l) => l.trackedKeys);
+// Counted by the limiter itself; a counter type even though it is read on scrape.
+registry.register({
+  name: "rate_limit_rejections_total",
+  help: "Requests rejected by a rate limit.",
+  type: "counter",
+  samples: () =>
+    Object.entries(rateLimiters).map(([limit, limiter]) => ({ labels: { limit }, value: limiter.rejected })),
+});
+
+// Scrapes keep working before the database is initialised (e.g. in tests).
+function dbStats(): ReturnType<typeof getDbStats> | null {
+  try {
+    return getDbStats();
+  } catch {
+    return null;
+  }
 }
+registry.register(
+  new CollectedGauge("db_size_bytes", "Size of the SQLite database (page_count * page_size).", () => {
+    const stats = dbStats();
+    return stats ? [{ value: stats.size_bytes }] : [];
+  })
+);
+registry.register(
+  new CollectedGauge("db_messages_rows", "Rows in the messages table.", () => {
+    const stats = dbStats();
+    return stats ? [{ value: stats.message_rows }] : [];
+  })
+);
 
-export function recordWebhookResult(result: string): void {
-  webhookResults[result] = (webhookResults[result] ?? 0) + 1;
-}
-
-export function recordLatency(ms: number): void {
-  latencyCount += 1;
-  latencyTotal += ms;
-  if (ms <= 100) {
-    latencyBuckets[100] = (latencyBuckets[100] ?? 0) + 1;
-  } else if (ms <= 500) {
-    latencyBuckets[500] = (latencyBuckets[500] ?? 0) + 1;
-  } else {
-    latencyBuckets[Infinity] = (latencyBuckets[Infinity] ?? 0) + 1;
+function inboxStats(): ReturnType<typeof getInboxStats> | null {
+  try {
+    return getInboxStats();
+  } catch {
+    return null;
   }
 }
+registry.register(
+  new CollectedGauge("inbox_depth", "Items waiting in the inbox, including retries.", () => {
+    const stats = inboxStats();
+    return stats ? [{ value: stats.pending }] : [];
+  })
+);
+registry.register(
+  new CollectedGauge(
+    "inbox_oldest_item_age_seconds",
+    "Age of the oldest item still in the inbox; 0 when it is empty.",
+    () => {
+      const stats = inboxStats();
+      if (!stats) return [];
+      const oldest = stats.oldest_received_at;
+      return [{ value: oldest ? Math.max(0, (Date.now() - Date.parse(oldest)) / 1000) : 0 }];
+    }
+  )
+);
+registry.register(
+  new CollectedGauge("inbox_dead_letters", "Items in the dead-letter table.", () => {
+    const stats = inboxStats();
+    return stats ? [{ value: stats.dead_letters }] : [];
+  })
+);
 
-export function renderMetrics(): string {
-  const lines: string[] = [];
+registry.register(
+  new CollectedGauge("process_start_time_seconds", "Unix time the process started.", () => [
+    { value: Math.floor(startedAt / 1000) },
+  ])
+);
+registry.register(
+  new CollectedGauge("process_uptime_seconds", "Seconds since the process started.", () => [
+    { value: (Date.now() - startedAt) / 1000 },
+  ])
+);
+registry.register(
+  new CollectedGauge("process_resident_memory_bytes", "Resident set size.", () => [
+    { value: process.memoryUsage().rss },
+  ])
+);
+registry.register(
+  new CollectedGauge("process_heap_used_bytes", "JavaScript heap in use.", () => [
+    { value: process.memoryUsage().heapUsed },
+  ])
+);
 
-  for (const [key, count] of Object.entries(httpRequests)) {
-    const [path, status] = key.split("|");
-    lines.push(`http_requests_total{path="${path}",status="${status}"} ${count}`);
-  }
+/** Sets the latency histogram buckets (seconds); call before serving traffic. */
+export function setLatencyBuckets(buckets: number[]): void {
+  httpDuration.setBuckets(buckets);
+}
 
-  for (const [result, count] of Object.entries(webhookResults)) {
-    lines.push(`webhook_requests_total{result="${result}"} ${count}`);
-  }
+/** `path` must be a route template (`/conversations/:a/:b/messages`), never a raw URL. */
+export function recordHttpRequest(method: string, path: string, status: number, latencyMs: number): void {
+  httpRequests.inc({ method, path, status });
+  httpDuration.observe({ method, path }, latencyMs / 1000);
+}
+
+export function recordWebhookResult(result: string): void {
+  webhookResults.inc({ result });
+}
 
-  const buckets = Object.keys(latencyBuckets)
-    .map((k) => Number(k))
-    .sort((a, b) => (a === Infinity ? 1 : b === Infinity ? -1 : a - b));
+/** Tracks which keyring entry verified a signature, so old keys can be retired. */
+export function recordWebhookKeyUsage(keyId: string): void {
+  webhookKeyMatches.inc({ key_id: keyId });
+  webhookKeyLastUsed.set({ key_id: keyId }, Math.floor(Date.now() / 1000));
+}
 
-  let cumulative = 0;
-  for (const le of buckets) {
-    cumulative += latencyBuckets[le] ?? 0;
-    const label = le === Infinity ? "+Inf" : le.toString();
-    lines.push(`request_latency_ms_bucket{le="${label}"} ${cumulative}`);
-  }
-  lines.push(`request_latency_ms_count ${latencyCount}`);
-  lines.push(`request_latency_ms_sum ${latencyTotal}`);
+export function recordRetentionRun(result: PurgeResult): void {
+  retentionPurgedMessages.inc({}, result.messages_deleted);
+  retentionPurgedStatuses.inc({}, result.statuses_deleted);
+  retentionPurgedConflicts.inc({}, result.conflicts_deleted);
+  retentionPurgedWebhookBodies.inc({}, result.inbox_deleted + result.dead_letters_deleted);
+  retentionLastRun.set({}, Math.floor(Date.now() / 1000));
+}
 
-  return lines.join("\n") + "\n";
+export function recordErasure(result: PurgeResult): void {
+  erasures.inc();
+  erasedMessages.inc({}, result.messages_deleted);
+  erasedStatuses.inc({}, result.statuses_deleted);
+  erasedConflicts.inc({}, result.conflicts_deleted);
+  erasedWebhookBodies.inc({}, result.inbox_deleted + result.dead_letters_deleted);
 }
 
+/** `lagSeconds` is null for retries, which are counted but not yet finished. */
+export function recordInboxResult(result: string, lagSeconds: number | null): void {
+  inboxResults.inc({ result });
+  if (lagSeconds !== null) inboxLag.observe({}, lagSeconds);
+}
+
+/** Exposes a limiter's settings, tracked keys and rejections as `limit="<name>"`. */
+export function registerRateLimiter(name: string, limiter: TokenBucketLimiter): void {
+  rateLimiters[name] = limiter;
+}
+
+export function renderMetrics(): string {
+  return registry.render();
+}
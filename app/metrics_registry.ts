@@ -0,0 +1,185 @@
+/**
+ * Minimal Prometheus text-format (0.0.4) registry: counters, gauges and
+ * histograms with fixed label names, rendered with HELP/TYPE headers.
+ */
+type LabelValues = Record<string, string | number>;
+
+type Sample = { suffix?: string; labels: LabelValues; value: number };
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: "counter" | "gauge" | "histogram";
+  samples(): Sample[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return Number.isNaN(value) ? "NaN" : String(value);
+}
+
+function formatLabels(labels: LabelValues): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(String(value))}"`
+  );
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+/** Series are keyed by their label values in label-name order. */
+abstract class LabeledMetric<T> implements Metric {
+  abstract readonly type: Metric["type"];
+  protected readonly series = new Map<string, { labels: LabelValues; state: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[] = []
+  ) {}
+
+  protected seriesFor(labels: LabelValues, init: () => T): T {
+    const ordered: LabelValues = {};
+    for (const name of this.labelNames) {
+      const value = labels[name];
+      if (value === undefined) throw new Error(`${this.name}: missing label ${name}`);
+      ordered[name] = value;
+    }
+    const key = this.labelNames.map((n) => String(ordered[n])).join("\u0000");
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: ordered, state: init() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  abstract samples(): Sample[];
+}
+
+export class Counter extends LabeledMetric<{ value: number }> {
+  readonly type = "counter";
+
+  constructor(name: string, help: string, labelNames: readonly string[] = []) {
+    super(name, help, labelNames);
+    // An unlabelled counter is exported as 0 before its first increment.
+    if (labelNames.length === 0) this.inc({}, 0);
+  }
+
+  inc(labels: LabelValues = {}, amount = 1): void {
+    this.seriesFor(labels, () => ({ value: 0 })).value += amount;
+  }
+
+  samples(): Sample[] {
+    return [...this.series.values()].map(({ labels, state }) => ({ labels, value: state.value }));
+  }
+}
+
+export class Gauge extends LabeledMetric<{ value: number }> {
+  readonly type = "gauge";
+
+  set(labels: LabelValues, value: number): void {
+    this.seriesFor(labels, () => ({ value: 0 })).value = value;
+  }
+
+  samples(): Sample[] {
+    return [...this.series.values()].map(({ labels, state }) => ({ labels, value: state.value }));
+  }
+}
+
+/** A gauge whose samples are read at scrape time, e.g. from the database. */
+export class CollectedGauge implements Metric {
+  readonly type = "gauge";
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly collect: () => { labels?: LabelValues; value: number }[]
+  ) {}
+
+  samples(): Sample[] {
+    return this.collect().map((s) => ({ labels: s.labels ?? {}, value: s.value }));
+  }
+}
+
+type HistogramState = { counts: number[]; sum: number; count: number };
+
+export class Histogram extends LabeledMetric<HistogramState> {
+  readonly type = "histogram";
+  private buckets: number[];
+
+  constructor(name: string, help: string, labelNames: readonly string[], buckets: number[]) {
+    super(name, help, labelNames);
+    this.buckets = Histogram.normalizeBuckets(buckets);
+  }
+
+  static normalizeBuckets(buckets: number[]): number[] {
+    const sorted = [...new Set(buckets.filter((b) => Number.isFinite(b)))].sort((a, b) => a - b);
+    if (sorted.length === 0) throw new Error("histogram needs at least one finite bucket");
+    return sorted;
+  }
+
+  /** Replaces the bucket layout; existing observations are dropped. */
+  setBuckets(buckets: number[]): void {
+    this.buckets = Histogram.normalizeBuckets(buckets);
+    this.reset();
+  }
+
+  observe(labels: LabelValues, value: number): void {
+    const state = this.seriesFor(labels, () => ({
+      counts: new Array(this.buckets.length).fill(0),
+      sum: 0,
+      count: 0,
+    }));
+    const index = this.buckets.findIndex((le) => value <= le);
+    if (index >= 0) state.counts[index]! += 1;
+    state.sum += value;
+    state.count += 1;
+  }
+
+  samples(): Sample[] {
+    const samples: Sample[] = [];
+    for (const { labels, state } of this.series.values()) {
+      let cumulative = 0;
+      this.buckets.forEach((le, i) => {
+        cumulative += state.counts[i]!;
+        samples.push({ suffix: "_bucket", labels: { ...labels, le }, value: cumulative });
+      });
+      samples.push({ suffix: "_bucket", labels: { ...labels, le: "+Inf" }, value: state.count });
+      samples.push({ suffix: "_sum", labels, value: state.sum });
+      samples.push({ suffix: "_count", labels, value: state.count });
+    }
+    return samples;
+  }
+}
+
+export class Registry {
+  private readonly metrics = new Map<string, Metric>();
+
+  register<M extends Metric>(metric: M): M {
+    if (this.metrics.has(metric.name)) throw new Error(`metric ${metric.name} already registered`);
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      for (const sample of metric.samples()) {
+        lines.push(
+          `${metric.name}${sample.suffix ?? ""}${formatLabels(sample.labels)} ${formatValue(sample.value)}`
+        );
+      }
+    }
+    return lines.join("\n") + "\n";
+  }
+}
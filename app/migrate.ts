@@ -0,0 +1,111 @@
+import type { Database } from "bun:sqlite";
+import { migrations as registeredMigrations } from "./migrations/index.ts";
+
+export type Migration = {
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+};
+
+export type AppliedMigration = {
+  version: number;
+  name: string;
+  applied_at: string;
+};
+
+export class SchemaTooNewError extends Error {
+  constructor(
+    readonly databaseVersion: number,
+    readonly codeVersion: number
+  ) {
+    super(
+      `database schema version ${databaseVersion} is newer than this build supports (${codeVersion}); refusing to start`
+    );
+    this.name = "SchemaTooNewError";
+  }
+}
+
+/** Adds a column unless it already exists (SQLite has no ADD COLUMN IF NOT EXISTS). */
+export function ensureColumn(db: Database, table: string, column: string, ddl: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${ddl}`);
+  }
+}
+
+function ensureMigrationsTable(db: Database): void {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+}
+
+function hasMigrationsTable(db: Database): boolean {
+  return (
+    db
+      .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'")
+      .get() !== null
+  );
+}
+
+/** Reading status never creates `schema_migrations`; a database without it has nothing applied. */
+export function appliedMigrations(db: Database): AppliedMigration[] {
+  if (!hasMigrationsTable(db)) return [];
+  return db
+    .prepare("SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC")
+    .all() as AppliedMigration[];
+}
+
+export function latestVersion(migrations: Migration[] = registeredMigrations): number {
+  return migrations.reduce((max, m) => Math.max(max, m.version), 0);
+}
+
+/**
+ * Migrations in `migrations` not yet recorded in `schema_migrations`, in
+ * version order. Throws `SchemaTooNewError` when the database has been
+ * migrated past what this build knows about.
+ */
+export function pendingMigrations(
+  db: Database,
+  migrations: Migration[] = registeredMigrations
+): Migration[] {
+  const applied = appliedMigrations(db);
+  const dbVersion = applied.reduce((max, m) => Math.max(max, m.version), 0);
+  const codeVersion = latestVersion(migrations);
+  if (dbVersion > codeVersion) {
+    throw new SchemaTooNewError(dbVersion, codeVersion);
+  }
+
+  const appliedVersions = new Set(applied.map((m) => m.version));
+  return [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter((m) => !appliedVersions.has(m.version));
+}
+
+/**
+ * Applies pending migrations, each in its own transaction together with its
+ * `schema_migrations` row, and returns what was applied. With `dryRun` the
+ * pending list is returned and nothing is written.
+ */
+export function runMigrations(
+  db: Database,
+  options: { dryRun?: boolean; migrations?: Migration[] } = {}
+): Migration[] {
+  const pending = pendingMigrations(db, options.migrations);
+  if (options.dryRun) return pending;
+
+  ensureMigrationsTable(db);
+  const record = db.prepare(
+    "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)"
+  );
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.name, new Date().toISOString());
+    })();
+  }
+  return pending;
+}
@@ -0,0 +1,20 @@
+import type { Migration } from "../migrate.ts";
+
+// Matches the table `initDb` created before migrations existed, so databases
+// from that era adopt this version without changes.
+export const migration: Migration = {
+  version: 1,
+  name: "create_messages",
+  up(db) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS messages (
+        message_id TEXT PRIMARY KEY,
+        from_msisdn TEXT NOT NULL,
+        to_msisdn TEXT NOT NULL,
+        ts TEXT NOT NULL,
+        text TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+  },
+};
@@ -0,0 +1,26 @@
+import type { Migration } from "../migrate.ts";
+
+// Status events may arrive before the message they refer to, so there is
+// deliberately no foreign key to messages.
+export const migration: Migration = {
+  version: 2,
+  name: "create_message_statuses",
+  up(db) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS message_statuses (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        message_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        ts TEXT NOT NULL,
+        recipient TEXT,
+        error_code TEXT,
+        error_message TEXT,
+        created_at TEXT NOT NULL,
+        UNIQUE (message_id, status, ts)
+      )
+    `);
+    db.run(
+      "CREATE INDEX IF NOT EXISTS idx_message_statuses_message ON message_statuses (message_id, ts)"
+    );
+  },
+};
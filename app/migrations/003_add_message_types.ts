@@ -0,0 +1,11 @@
+import { ensureColumn, type Migration } from "../migrate.ts";
+
+export const migration: Migration = {
+  version: 3,
+  name: "add_message_types",
+  up(db) {
+    ensureColumn(db, "messages", "type", "TEXT NOT NULL DEFAULT 'text'");
+    ensureColumn(db, "messages", "caption", "TEXT");
+    ensureColumn(db, "messages", "content", "TEXT");
+  },
+};
@@ -0,0 +1,12 @@
+import type { Migration } from "../migrate.ts";
+
+// `listMessages` orders by (ts, message_id) and filters by sender; `getStats`
+// groups by sender.
+export const migration: Migration = {
+  version: 4,
+  name: "index_messages",
+  up(db) {
+    db.run("CREATE INDEX IF NOT EXISTS idx_messages_ts ON messages (ts, message_id)");
+    db.run("CREATE INDEX IF NOT EXISTS idx_messages_from ON messages (from_msisdn, ts)");
+  },
+};
@@ -0,0 +1,69 @@
+import type { Migration } from "../migrate.ts";
+
+/**
+ * Full-text index over message text and media captions. FTS5 external
+ * content tables key on the source rowid, and SQLite may renumber implicit
+ * rowids on VACUUM, so `messages` is rebuilt first with an explicit
+ * `id INTEGER PRIMARY KEY`. `message_id` stays the unique natural key.
+ */
+export const migration: Migration = {
+  version: 5,
+  name: "messages_fts",
+  up(db) {
+    db.run(`
+      CREATE TABLE messages_v5 (
+        id INTEGER PRIMARY KEY,
+        message_id TEXT NOT NULL UNIQUE,
+        from_msisdn TEXT NOT NULL,
+        to_msisdn TEXT NOT NULL,
+        ts TEXT NOT NULL,
+        text TEXT,
+        created_at TEXT NOT NULL,
+        type TEXT NOT NULL DEFAULT 'text',
+        caption TEXT,
+        content TEXT
+      )
+    `);
+    db.run(`
+      INSERT INTO messages_v5
+        (message_id, from_msisdn, to_msisdn, ts, text, created_at, type, caption, content)
+      SELECT message_id, from_msisdn, to_msisdn, ts, text, created_at, type, caption, content
+      FROM messages
+      ORDER BY rowid
+    `);
+    db.run("DROP TABLE messages");
+    db.run("ALTER TABLE messages_v5 RENAME TO messages");
+    db.run("CREATE INDEX idx_messages_ts ON messages (ts, message_id)");
+    db.run("CREATE INDEX idx_messages_from ON messages (from_msisdn, ts)");
+
+    db.run(`
+      CREATE VIRTUAL TABLE messages_fts USING fts5(
+        text,
+        caption,
+        content = 'messages',
+        content_rowid = 'id',
+        tokenize = 'unicode61 remove_diacritics 2',
+        prefix = '2 3'
+      )
+    `);
+    db.run(`
+      CREATE TRIGGER messages_fts_insert AFTER INSERT ON messages BEGIN
+        INSERT INTO messages_fts (rowid, text, caption) VALUES (new.id, new.text, new.caption);
+      END
+    `);
+    db.run(`
+      CREATE TRIGGER messages_fts_delete AFTER DELETE ON messages BEGIN
+        INSERT INTO messages_fts (messages_fts, rowid, text, caption)
+        VALUES ('delete', old.id, old.text, old.caption);
+      END
+    `);
+    db.run(`
+      CREATE TRIGGER messages_fts_update AFTER UPDATE OF text, caption ON messages BEGIN
+        INSERT INTO messages_fts (messages_fts, rowid, text, caption)
+        VALUES ('delete', old.id, old.text, old.caption);
+        INSERT INTO messages_fts (rowid, text, caption) VALUES (new.id, new.text, new.caption);
+      END
+    `);
+    db.run("INSERT INTO messages_fts (messages_fts) VALUES ('rebuild')");
+  },
+};
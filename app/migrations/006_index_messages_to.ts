@@ -0,0 +1,10 @@
+import type { Migration } from "../migrate.ts";
+
+// Recipient filters and conversation threads look messages up by `to`.
+export const migration: Migration = {
+  version: 6,
+  name: "index_messages_to",
+  up(db) {
+    db.run("CREATE INDEX IF NOT EXISTS idx_messages_to ON messages (to_msisdn, ts)");
+  },
+};
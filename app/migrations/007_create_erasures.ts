@@ -0,0 +1,21 @@
+import type { Migration } from "../migrate.ts";
+
+// Audit trail for `DELETE /contacts/:msisdn`. The number itself is erased
+// too; only its SHA-256 is kept so a later request can be checked against it.
+export const migration: Migration = {
+  version: 7,
+  name: "create_erasures",
+  up(db) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS erasures (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        subject_hash TEXT NOT NULL,
+        messages_deleted INTEGER NOT NULL,
+        statuses_deleted INTEGER NOT NULL,
+        request_id TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+    db.run("CREATE INDEX IF NOT EXISTS idx_erasures_subject ON erasures (subject_hash)");
+  },
+};
@@ -0,0 +1,21 @@
+import type { Migration } from "../migrate.ts";
+
+// Only a SHA-256 of each key's secret is stored; the full key is shown once
+// when it is created.
+export const migration: Migration = {
+  version: 8,
+  name: "create_api_keys",
+  up(db) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        secret_hash TEXT NOT NULL,
+        scopes TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT,
+        revoked_at TEXT
+      )
+    `);
+  },
+};
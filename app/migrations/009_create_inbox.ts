@@ -0,0 +1,40 @@
+import type { Migration } from "../migrate.ts";
+
+// With WEBHOOK_INGEST_MODE=inbox, verified `/webhook` bodies are stored in
+// `inbox` as received and processed by the in-process worker. Items that
+// fail permanently, or run out of retries, move to `dead_letters`.
+export const migration: Migration = {
+  version: 9,
+  name: "create_inbox",
+  up(db) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS inbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        body TEXT NOT NULL,
+        request_id TEXT,
+        trace_id TEXT,
+        key_id TEXT,
+        received_at TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TEXT NOT NULL,
+        last_error TEXT
+      )
+    `);
+    db.run("CREATE INDEX IF NOT EXISTS idx_inbox_next_attempt ON inbox (next_attempt_at, id)");
+    db.run(`
+      CREATE TABLE IF NOT EXISTS dead_letters (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        inbox_id INTEGER NOT NULL,
+        body TEXT NOT NULL,
+        request_id TEXT,
+        trace_id TEXT,
+        key_id TEXT,
+        received_at TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        reason TEXT NOT NULL,
+        error TEXT NOT NULL,
+        failed_at TEXT NOT NULL
+      )
+    `);
+  },
+};
@@ -0,0 +1,27 @@
+import { ensureColumn, type Migration } from "../migrate.ts";
+
+// `content_hash` tells a replay of a message apart from a different message
+// reusing its `message_id`. Rows stored before this migration have none;
+// their hash is worked out from the stored columns when needed.
+export const migration: Migration = {
+  version: 10,
+  name: "add_content_hash",
+  up(db) {
+    ensureColumn(db, "messages", "content_hash", "TEXT");
+    db.run(`
+      CREATE TABLE IF NOT EXISTS message_conflicts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        message_id TEXT NOT NULL,
+        existing_hash TEXT NOT NULL,
+        incoming_hash TEXT NOT NULL,
+        existing_payload TEXT NOT NULL,
+        incoming_payload TEXT NOT NULL,
+        request_id TEXT,
+        occurrences INTEGER NOT NULL DEFAULT 1,
+        first_seen_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL,
+        UNIQUE (message_id, incoming_hash)
+      )
+    `);
+  },
+};
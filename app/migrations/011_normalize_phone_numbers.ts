@@ -0,0 +1,34 @@
+import { ensureColumn, type Migration } from "../migrate.ts";
+import { normalizePhone, phoneCountry } from "../phone.ts";
+
+// `from_msisdn` / `to_msisdn` hold the canonical E.164 form that filters and
+// conversations match on; `from_raw` / `to_raw` keep the numbers as sent.
+// The sender's region and calling code are derived once, on insert.
+export const migration: Migration = {
+  version: 11,
+  name: "normalize_phone_numbers",
+  up(db) {
+    ensureColumn(db, "messages", "from_raw", "TEXT");
+    ensureColumn(db, "messages", "to_raw", "TEXT");
+    ensureColumn(db, "messages", "from_country", "TEXT");
+    ensureColumn(db, "messages", "from_calling_code", "TEXT");
+
+    const rows = db
+      .prepare("SELECT message_id, from_msisdn, to_msisdn FROM messages WHERE from_raw IS NULL")
+      .all() as { message_id: string; from_msisdn: string; to_msisdn: string }[];
+    const update = db.prepare(
+      `UPDATE messages
+       SET from_raw = from_msisdn, to_raw = to_msisdn, from_msisdn = ?, to_msisdn = ?,
+           from_country = ?, from_calling_code = ?
+       WHERE message_id = ?`
+    );
+    for (const row of rows) {
+      const from = normalizePhone(row.from_msisdn) ?? row.from_msisdn;
+      const to = normalizePhone(row.to_msisdn) ?? row.to_msisdn;
+      const country = phoneCountry(from);
+      update.run(from, to, country?.country ?? null, country?.callingCode ?? null, row.message_id);
+    }
+
+    db.run("CREATE INDEX IF NOT EXISTS idx_messages_from_country ON messages (from_country, ts)");
+  },
+};
@@ -0,0 +1,11 @@
+import { ensureColumn, type Migration } from "../migrate.ts";
+
+// Conflicting payloads hold the same numbers and text as the messages they
+// shadow, so erasure deletes them too and records how many.
+export const migration: Migration = {
+  version: 12,
+  name: "add_erasure_conflicts",
+  up(db) {
+    ensureColumn(db, "erasures", "conflicts_deleted", "INTEGER NOT NULL DEFAULT 0");
+  },
+};
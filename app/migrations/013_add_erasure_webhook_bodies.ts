@@ -0,0 +1,12 @@
+import { ensureColumn, type Migration } from "../migrate.ts";
+
+// Raw webhook bodies waiting in `inbox` or parked in `dead_letters` name
+// the same numbers as stored messages; erasure counts those it deletes.
+export const migration: Migration = {
+  version: 13,
+  name: "add_erasure_webhook_bodies",
+  up(db) {
+    ensureColumn(db, "erasures", "inbox_deleted", "INTEGER NOT NULL DEFAULT 0");
+    ensureColumn(db, "erasures", "dead_letters_deleted", "INTEGER NOT NULL DEFAULT 0");
+  },
+};
@@ -0,0 +1,31 @@
+import type { Migration } from "../migrate.ts";
+import { migration as m001 } from "./001_create_messages.ts";
+import { migration as m002 } from "./002_create_message_statuses.ts";
+import { migration as m003 } from "./003_add_message_types.ts";
+import { migration as m004 } from "./004_index_messages.ts";
+import { migration as m005 } from "./005_messages_fts.ts";
+import { migration as m006 } from "./006_index_messages_to.ts";
+import { migration as m007 } from "./007_create_erasures.ts";
+import { migration as m008 } from "./008_create_api_keys.ts";
+import { migration as m009 } from "./009_create_inbox.ts";
+import { migration as m010 } from "./010_add_content_hash.ts";
+import { migration as m011 } from "./011_normalize_phone_numbers.ts";
+import { migration as m012 } from "./012_add_erasure_conflicts.ts";
+import { migration as m013 } from "./013_add_erasure_webhook_bodies.ts";
+
+// Append new migrations here; versions must be strictly increasing.
+export const migrations: Migration[] = [
+  m001,
+  m002,
+  m003,
+  m004,
+  m005,
+  m006,
+  m007,
+  m008,
+  m009,
+  m010,
+  m011,
+  m012,
+  m013,
+];
@@ -1,22 +1,185 @@
 import { z } from "zod";
+import { limits, maxCheck } from "./limits.ts";
+import { normalizePhone } from "./phone.ts";
 
 export const isoUtcString = z
   .string()
   .regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/, "ts must be ISO-8601 with Z");
 
+/**
+ * An E.164 number. Formatting (spaces, dots, dashes, parentheses) is allowed
+ * and kept as sent; storage and filters use `normalizePhone`'s canonical form.
+ */
 export const phoneSchema = z
   .string()
-  .regex(/^\+\d+$/, "must start with + followed by digits");
+  .refine((v) => normalizePhone(v) !== null, {
+    message: "must be an E.164 number: + then 7-15 digits, not starting with 0",
+  })
+  .describe(
+    "E.164: `+` then 7-15 digits, not starting with 0. Spaces, dots, dashes and parentheses are allowed."
+  );
 
-export const webhookMessageSchema = z.object({
+const messageBase = {
   message_id: z.string().min(1, "message_id required"),
   from: phoneSchema,
   to: phoneSchema,
   ts: isoUtcString,
-  text: z.string().max(4096).optional(),
+};
+
+export const mediaTypeValues = ["image", "audio", "video", "document"] as const;
+
+export type MediaType = (typeof mediaTypeValues)[number];
+
+export const messageTypeValues = [
+  "text",
+  ...mediaTypeValues,
+  "location",
+  "contacts",
+] as const;
+
+export type MessageType = (typeof messageTypeValues)[number];
+
+export const mediaSchema = z.object({
+  id: z.string().min(1, "media id required"),
+  mime_type: z.string().min(1, "mime_type required"),
+  caption: z.string().max(1024).optional(),
+  sha256: z.string().max(128).optional(),
+  size: z.number().int().nonnegative().optional(),
+  filename: z.string().max(255).optional(),
+});
+
+export const locationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  name: z.string().max(1024).optional(),
+  address: z.string().max(1024).optional(),
+});
+
+export const sharedContactSchema = z.object({
+  name: z.string().min(1, "contact name required"),
+  phones: z.array(z.string().max(64)).default([]),
+  emails: z.array(z.string().max(320)).default([]),
+});
+
+const textMessageSchema = z.object({
+  ...messageBase,
+  type: z.literal("text"),
+  text: z.string().check(maxCheck(() => limits.textMaxLength)).optional(),
+});
+
+const mediaMessageSchema = z.object({
+  ...messageBase,
+  type: z.enum(mediaTypeValues),
+  media: mediaSchema,
+});
+
+const locationMessageSchema = z.object({
+  ...messageBase,
+  type: z.literal("location"),
+  location: locationSchema,
+});
+
+const contactsMessageSchema = z.object({
+  ...messageBase,
+  type: z.literal("contacts"),
+  contacts: z.array(sharedContactSchema).min(1, "at least one contact required"),
 });
 
+// Senders that predate typed payloads omit `type`; those are text messages.
+// `"message"` was the original name for that variant and is still accepted.
+function withDefaultType(value: unknown): unknown {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return value;
+  const type = (value as { type?: unknown }).type;
+  if (type === undefined || type === "message") return { ...value, type: "text" };
+  return value;
+}
+
+export const webhookMessageSchema = z.preprocess(
+  withDefaultType,
+  z.discriminatedUnion("type", [
+    textMessageSchema,
+    mediaMessageSchema,
+    locationMessageSchema,
+    contactsMessageSchema,
+  ])
+);
+
 export type WebhookMessage = z.infer<typeof webhookMessageSchema>;
+export type MediaContent = z.infer<typeof mediaSchema>;
+export type LocationContent = z.infer<typeof locationSchema>;
+export type SharedContact = z.infer<typeof sharedContactSchema>;
+
+export const messageStatusValues = ["sent", "delivered", "read", "failed"] as const;
+
+export type MessageStatus = (typeof messageStatusValues)[number];
+
+/** Delivery/read receipt for a message sent earlier with `message_id`. */
+export const webhookStatusSchema = z.object({
+  type: z.literal("status"),
+  message_id: z.string().min(1, "message_id required"),
+  status: z.enum(messageStatusValues),
+  ts: isoUtcString,
+  recipient: phoneSchema.optional(),
+  error_code: z.string().max(64).optional(),
+  error_message: z.string().max(1024).optional(),
+});
+
+export type WebhookStatusEvent = z.infer<typeof webhookStatusSchema>;
+
+/**
+ * Everything `POST /webhook` accepts, discriminated on `type`: one of the
+ * message variants above or a status event.
+ */
+export const webhookPayloadSchema = z.preprocess(
+  withDefaultType,
+  z.discriminatedUnion("type", [
+    textMessageSchema,
+    mediaMessageSchema,
+    locationMessageSchema,
+    contactsMessageSchema,
+    webhookStatusSchema,
+  ])
+);
+
+export type WebhookPayload = z.infer<typeof webhookPayloadSchema>;
 
-export type StoredMessage = WebhookMessage & { created_at: string };
+export const statusEntrySchema = z.strictObject({
+  status: z.enum(messageStatusValues),
+  ts: z.string(),
+  recipient: z.string().nullable(),
+  error_code: z.string().nullable(),
+  error_message: z.string().nullable(),
+});
+
+export type StatusEntry = z.infer<typeof statusEntrySchema>;
+
+/**
+ * A message as `/messages` and the export return it. Numbers are not
+ * re-validated: rows stored before E.164 checks keep their original value.
+ */
+export const storedMessageSchema = z.strictObject({
+  message_id: z.string(),
+  from: z.string(),
+  to: z.string(),
+  ts: z.string(),
+  type: z.enum(messageTypeValues),
+  text: z.string().nullable(),
+  media: mediaSchema.optional(),
+  location: locationSchema.optional(),
+  contacts: z.array(sharedContactSchema).optional(),
+  created_at: z.string(),
+  country: z
+    .string()
+    .nullable()
+    .describe("Region of `from`; null when its calling code is unassigned."),
+  calling_code: z.string().nullable(),
+  status: z.enum(messageStatusValues).nullable().describe("Latest status event, if any."),
+  statuses: z.array(statusEntrySchema),
+  snippet: z
+    .string()
+    .nullable()
+    .optional()
+    .describe("Highlighted match context, present on full-text search results."),
+});
 
+export type StoredMessage = z.infer<typeof storedMessageSchema>;
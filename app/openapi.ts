@@ -0,0 +1,775 @@
+import type express from "express";
+import { z } from "zod";
+import type { ApiKeyScope } from "./api_keys.ts";
+import type { LogLevel } from "./config.ts";
+import { exportContentTypes } from "./export.ts";
+import { logJSON } from "./logging_utils.ts";
+import { storedMessageSchema, webhookMessageSchema, webhookPayloadSchema } from "./models.ts";
+import { metaEnvelopeSchema, twilioCallbackSchema } from "./providers.ts";
+import {
+  conversationsQuerySchema,
+  deadLettersQuerySchema,
+  exportQuerySchema,
+  idParam,
+  messagesQuerySchema,
+  phoneParam,
+  statsQuerySchema,
+  timeseriesQuerySchema,
+} from "./queries.ts";
+import {
+  batchResultSchema,
+  conversationMessagesPageSchema,
+  conversationSchema,
+  conversationsPageSchema,
+  deadLetterDiscardedSchema,
+  deadLetterRequeuedSchema,
+  deadLetterSchema,
+  deadLettersPageSchema,
+  erasureSchema,
+  errorSchema,
+  formattedErrorsSchema,
+  healthSchema,
+  inboxStatusSchema,
+  messagesPageSchema,
+  notReadySchema,
+  providerConflictSchema,
+  providerOkSchema,
+  rateLimitedSchema,
+  statsSchema,
+  timeseriesSchema,
+  validationErrorSchema,
+  webhookConflictSchema,
+  webhookOkSchema,
+  webhookQueuedSchema,
+} from "./responses.ts";
+import type { RequestContext } from "./tracing.ts";
+
+type HttpMethod = "GET" | "POST" | "DELETE";
+
+type ResponseContract = {
+  description: string;
+  /** The JSON body. Responses in another format list `contentTypes` instead. */
+  schema?: z.ZodType;
+  contentTypes?: string[];
+};
+
+type HeaderParameter = { description: string; required?: boolean };
+
+/** What one route accepts and every response it can send. */
+export type RouteContract = {
+  method: HttpMethod;
+  /** The Express route path, e.g. `/admin/dead-letters/:id`. */
+  path: string;
+  summary: string;
+  description?: string;
+  tag: "webhooks" | "messages" | "stats" | "admin" | "operations";
+  /** API key scope the route requires; webhook routes check a signature instead. */
+  scope?: ApiKeyScope;
+  headers?: Record<string, HeaderParameter>;
+  params?: Record<string, z.ZodType>;
+  query?: z.ZodObject;
+  body?: { contentType: string; schema: z.ZodType };
+  responses: Record<number, ResponseContract>;
+};
+
+export const webhookBatchSchema = z.array(webhookMessageSchema);
+
+/** A minimal check on `/openapi.json` itself; the document is generated, not hand-written. */
+const openApiDocumentSchema = z.looseObject({
+  openapi: z.literal("3.1.0"),
+  paths: z.record(z.string(), z.unknown()),
+});
+
+const error = (description: string): ResponseContract => ({ description, schema: errorSchema });
+
+const serverError = error("Unexpected error; `detail` holds the message.");
+const invalidParameters: ResponseContract = {
+  description: "Invalid parameters, keyed by parameter name.",
+  schema: formattedErrorsSchema,
+};
+const notFound = error("No dead letter with this id.");
+const rateLimited: ResponseContract = {
+  description: "Rate limited per client IP or, on `/webhook`, per sender. See `Retry-After`.",
+  schema: rateLimitedSchema,
+};
+const notConfigured = error("The route's secret is not configured.");
+const invalidSignature = error("Missing or invalid signature.");
+
+const signatureHeaders: Record<string, HeaderParameter> = {
+  "X-Signature": {
+    description:
+      "Hex HMAC-SHA256 of the raw body, or of `<timestamp>.<body>` when a timestamp is sent, using a webhook key.",
+    required: true,
+  },
+  "X-Signature-Timestamp": {
+    description: "Unix seconds. Required when `WEBHOOK_REQUIRE_TIMESTAMP=true`.",
+  },
+  "X-Signature-Key-Id": { description: "Verify against this key only." },
+};
+
+/**
+ * Adds the responses every route of a kind shares: 401/403 for API-key
+ * routes and 422 for routes that validate parameters.
+ */
+function route(contract: RouteContract): RouteContract {
+  const responses = { ...contract.responses };
+  if (contract.scope) {
+    responses[401] ??= error("Missing, unknown or revoked API key.");
+    responses[403] ??= error(`The API key lacks the \`${contract.scope}\` scope.`);
+  }
+  if (contract.query || contract.params) responses[422] ??= invalidParameters;
+  return { ...contract, responses };
+}
+
+const messagePathParams = { a: phoneParam, b: phoneParam };
+
+/** Every route the app serves, in the order they are registered in `app/main.ts`. */
+export const routeContracts: RouteContract[] = [
+  route({
+    method: "POST",
+    path: "/webhook",
+    tag: "webhooks",
+    summary: "Ingest one message or status event",
+    description:
+      "Messages are matched on `message_id`: the same content again is a `duplicate`, different content a `conflict`. With `WEBHOOK_INGEST_MODE=inbox` the body is queued and answered with 202.",
+    headers: signatureHeaders,
+    body: { contentType: "application/json", schema: webhookPayloadSchema },
+    responses: {
+      200: { description: "Stored, or already stored.", schema: webhookOkSchema },
+      202: { description: "Queued for the inbox worker.", schema: webhookQueuedSchema },
+      401: invalidSignature,
+      409: {
+        description: "`message_id` reused with other content, with `WEBHOOK_REJECT_CONFLICTS=true`.",
+        schema: webhookConflictSchema,
+      },
+      422: { description: "Body is not JSON or fails validation.", schema: validationErrorSchema },
+      429: rateLimited,
+      500: serverError,
+      503: error("No active webhook key."),
+    },
+  }),
+  route({
+    method: "POST",
+    path: "/webhook/batch",
+    tag: "webhooks",
+    summary: "Ingest an array of messages",
+    description:
+      "Signed as a whole with the `/webhook` headers. Valid items are stored in one transaction; invalid ones are reported per item.",
+    headers: signatureHeaders,
+    body: { contentType: "application/json", schema: webhookBatchSchema },
+    responses: {
+      200: { description: "One result per item.", schema: batchResultSchema },
+      401: invalidSignature,
+      413: error("More items than `WEBHOOK_BATCH_MAX_ITEMS`."),
+      422: { description: "Body is not a JSON array.", schema: errorSchema },
+      429: rateLimited,
+      500: serverError,
+      503: error("No active webhook key."),
+    },
+  }),
+  route({
+    method: "GET",
+    path: "/webhook/meta",
+    tag: "webhooks",
+    summary: "Meta webhook verification",
+    query: z.object({
+      "hub.mode": z.literal("subscribe"),
+      "hub.verify_token": z.string().describe("Must equal `META_VERIFY_TOKEN`."),
+      "hub.challenge": z.string(),
+    }),
+    responses: {
+      200: { description: "Echoes `hub.challenge`.", contentTypes: ["text/plain"] },
+      403: error("Wrong mode or token, or `META_VERIFY_TOKEN` is not set."),
+    },
+  }),
+  route({
+    method: "POST",
+    path: "/webhook/meta",
+    tag: "webhooks",
+    summary: "WhatsApp Cloud API callback",
+    description: "Nothing is stored unless every message in the callback validates.",
+    headers: {
+      "X-Hub-Signature-256": {
+        description: "`sha256=` and the hex HMAC-SHA256 of the raw body using `META_APP_SECRET`.",
+        required: true,
+      },
+    },
+    body: { contentType: "application/json", schema: metaEnvelopeSchema },
+    responses: {
+      200: { description: "Stored, already stored or nothing to store.", schema: providerOkSchema },
+      401: invalidSignature,
+      409: {
+        description: "Conflicting `message_id`s, with `WEBHOOK_REJECT_CONFLICTS=true`.",
+        schema: providerConflictSchema,
+      },
+      422: { description: "Body is not JSON or fails validation.", schema: validationErrorSchema },
+      429: rateLimited,
+      500: serverError,
+      503: notConfigured,
+    },
+  }),
+  route({
+    method: "POST",
+    path: "/webhook/twilio",
+    tag: "webhooks",
+    summary: "Twilio message or status callback",
+    headers: {
+      "X-Twilio-Signature": {
+        description: "Base64 HMAC-SHA1 of the URL and sorted form fields using `TWILIO_AUTH_TOKEN`.",
+        required: true,
+      },
+    },
+    body: { contentType: "application/x-www-form-urlencoded", schema: twilioCallbackSchema },
+    responses: {
+      200: { description: "An empty TwiML response.", contentTypes: ["text/xml"] },
+      401: invalidSignature,
+      409: {
+        description: "Conflicting `message_id`, with `WEBHOOK_REJECT_CONFLICTS=true`.",
+        schema: providerConflictSchema,
+      },
+      422: { description: "Required fields are missing or invalid.", schema: validationErrorSchema },
+      429: rateLimited,
+      500: serverError,
+      503: notConfigured,
+    },
+  }),
+  route({
+    method: "GET",
+    path: "/health/live",
+    tag: "operations",
+    summary: "Liveness",
+    responses: { 200: { description: "The process is running.", schema: healthSchema } },
+  }),
+  route({
+    method: "GET",
+    path: "/health/ready",
+    tag: "operations",
+    summary: "Readiness",
+    responses: {
+      200: { description: "The database is reachable and a webhook key is active.", schema: healthSchema },
+      503: { description: "Not ready, or shutting down.", schema: notReadySchema },
+    },
+  }),
+  route({
+    method: "GET",
+    path: "/openapi.json",
+    tag: "operations",
+    summary: "This document",
+    responses: { 200: { description: "The OpenAPI 3.1 document.", schema: openApiDocumentSchema } },
+  }),
+  route({
+    method: "GET",
+    path: "/docs",
+    tag: "operations",
+    summary: "API reference page",
+    responses: { 200: { description: "Renders `/openapi.json`.", contentTypes: ["text/html"] } },
+  }),
+  route({
+    method: "GET",
+    path: "/messages",
+    tag: "messages",
+    summary: "List messages",
+    scope: "messages:read",
+    query: messagesQuerySchema,
+    responses: {
+      200: { description: "One page of messages.", schema: messagesPageSchema },
+      500: serverError,
+    },
+  }),
+  route({
+    method: "GET",
+    path: "/messages/export",
+    tag: "messages",
+    summary: "Stream every matching message",
+    description:
+      "Rows follow `(ts, message_id)` order. The hex SHA-256 of the body and the row count are sent as the trailers `X-Export-SHA256` and `X-Export-Row-Count`; without them the export was cut short.",
+    scope: "messages:read",
+    query: exportQuerySchema,
+    responses: {
+      200: {
+        description: "NDJSON lines shaped like `/messages` items, or CSV.",
+        contentTypes: Object.values(exportContentTypes).map((type) => type.split(";")[0]!),
+      },
+      500: serverError,
+    },
+  }),
+  route({
+    method: "GET",
+    path: "/conversations",
+    tag: "messages",
+    summary: "List conversations",
+    description: "One entry per participant pair, most recently active first.",
+    scope: "messages:read",
+    query: conversationsQuerySchema,
+    responses: {
+      200: { description: "One page of conversations.", schema: conversationsPageSchema },
+      500: serverError,
+    },
+  }),
+  route({
+    method: "GET",
+    path: "/conversations/:a/:b/messages",
+    tag: "messages",
+    summary: "Messages between two numbers",
+    description: "Both directions. Takes the `/messages` query parameters.",
+    scope: "messages:read",
+    params: messagePathParams,
+    query: messagesQuerySchema,
+    responses: {
+      200: { description: "One page of messages.", schema: conversationMessagesPageSchema },
+      500: serverError,
+    },
+  }),
+  route({
+    method: "DELETE",
+    path: "/contacts/:msisdn",
+    tag: "admin",
+    summary: "Erase a contact",
+    description: "Deletes every message to or from the number and their status events.",
+    scope: "admin",
+    params: { msisdn: phoneParam },
+    responses: {
+      200: { description: "The audit row kept in `erasures`.", schema: erasureSchema },
+      500: serverError,
+    },
+  }),
+  route({
+    method: "GET",
+    path: "/admin/inbox",
+    tag: "admin",
+    summary: "Inbox backlog",
+    scope: "admin",
+    responses: {
+      200: { description: "Ingest mode, backlog and dead letters.", schema: inboxStatusSchema },
+      500: serverError,
+    },
+  }),
+  route({
+    method: "GET",
+    path: "/admin/dead-letters",
+    tag: "admin",
+    summary: "List dead letters",
+    description: "Most recent failure first.",
+    scope: "admin",
+    query: deadLettersQuerySchema,
+    responses: {
+      200: { description: "One page of dead letters.", schema: deadLettersPageSchema },
+      500: serverError,
+    },
+  }),
+  route({
+    method: "GET",
+    path: "/admin/dead-letters/:id",
+    tag: "admin",
+    summary: "Get a dead letter",
+    scope: "admin",
+    params: { id: idParam },
+    responses: {
+      200: { description: "The dead letter.", schema: deadLetterSchema },
+      404: notFound,
+      500: serverError,
+    },
+  }),
+  route({
+    method: "POST",
+    path: "/admin/dead-letters/:id/requeue",
+    tag: "admin",
+    summary: "Requeue a dead letter",
+    description: "Moves it back into the inbox with a fresh attempt count.",
+    scope: "admin",
+    params: { id: idParam },
+    responses: {
+      200: { description: "Requeued.", schema: deadLetterRequeuedSchema },
+      404: notFound,
+      500: serverError,
+    },
+  }),
+  route({
+    method: "DELETE",
+    path: "/admin/dead-letters/:id",
+    tag: "admin",
+    summary: "Discard a dead letter",
+    scope: "admin",
+    params: { id: idParam },
+    responses: {
+      200: { description: "Discarded.", schema: deadLetterDiscardedSchema },
+      404: notFound,
+      500: serverError,
+    },
+  }),
+  route({
+    method: "GET",
+    path: "/stats",
+    tag: "stats",
+    summary: "Message statistics",
+    scope: "stats:read",
+    query: statsQuerySchema,
+    responses: {
+      200: { description: "Totals, top senders and sender countries.", schema: statsSchema },
+      500: serverError,
+    },
+  }),
+  route({
+    method: "GET",
+    path: "/stats/timeseries",
+    tag: "stats",
+    summary: "Messages and senders per time bucket",
+    scope: "stats:read",
+    query: timeseriesQuerySchema,
+    responses: {
+      200: { description: "Every bucket in the range, empty ones with zeros.", schema: timeseriesSchema },
+      422: {
+        description: "Invalid parameters, or a range of more than 5000 buckets.",
+        schema: formattedErrorsSchema,
+      },
+      500: serverError,
+    },
+  }),
+  route({
+    method: "GET",
+    path: "/metrics",
+    tag: "operations",
+    summary: "Prometheus metrics",
+    scope: "metrics:read",
+    responses: { 200: { description: "Text exposition format.", contentTypes: ["text/plain"] } },
+  }),
+];
+
+/** Named schemas under `components.schemas`; request bodies are described as sent. */
+const components: Record<"input" | "output", [string, z.ZodType][]> = {
+  input: [
+    ["WebhookPayload", webhookPayloadSchema],
+    ["WebhookBatch", webhookBatchSchema],
+    ["MetaCallback", metaEnvelopeSchema],
+    ["TwilioCallback", twilioCallbackSchema],
+  ],
+  output: [
+    ["Error", errorSchema],
+    ["FormattedErrors", formattedErrorsSchema],
+    ["ValidationError", validationErrorSchema],
+    ["RateLimited", rateLimitedSchema],
+    ["WebhookOk", webhookOkSchema],
+    ["WebhookQueued", webhookQueuedSchema],
+    ["WebhookConflict", webhookConflictSchema],
+    ["BatchResult", batchResultSchema],
+    ["ProviderOk", providerOkSchema],
+    ["ProviderConflict", providerConflictSchema],
+    ["Health", healthSchema],
+    ["NotReady", notReadySchema],
+    ["StoredMessage", storedMessageSchema],
+    ["MessagesPage", messagesPageSchema],
+    ["ConversationMessagesPage", conversationMessagesPageSchema],
+    ["Conversation", conversationSchema],
+    ["ConversationsPage", conversationsPageSchema],
+    ["Stats", statsSchema],
+    ["Timeseries", timeseriesSchema],
+    ["Erasure", erasureSchema],
+    ["InboxStatus", inboxStatusSchema],
+    ["DeadLetter", deadLetterSchema],
+    ["DeadLettersPage", deadLettersPageSchema],
+    ["DeadLetterRequeued", deadLetterRequeuedSchema],
+    ["DeadLetterDiscarded", deadLetterDiscardedSchema],
+  ],
+};
+
+const componentDescriptions: Record<string, string> = {
+  WebhookPayload:
+    "A message (`text`, media, `location` or `contacts`) or a `status` event. `type` may be left out, or sent as `message`, for text messages. Numbers must be E.164; spaces, dots, dashes and parentheses are dropped.",
+  MetaCallback: "The parts of the WhatsApp Cloud API envelope that are read; other fields are ignored.",
+  StoredMessage: "Numbers are in canonical E.164 form, except on rows stored before that was enforced.",
+};
+
+type JsonSchema = Record<string, unknown>;
+
+function toJsonSchema(schema: z.ZodType, io: "input" | "output"): JsonSchema {
+  const { $schema: _, ...json } = z.toJSONSchema(schema, {
+    io,
+    target: "draft-2020-12",
+    unrepresentable: "any",
+  }) as JsonSchema;
+  return json;
+}
+
+function componentSchemas(io: "input" | "output"): Record<string, JsonSchema> {
+  const registry = z.registry<{ id: string }>();
+  for (const [id, schema] of components[io]) registry.add(schema, { id });
+  const { schemas } = z.toJSONSchema(registry, {
+    io,
+    target: "draft-2020-12",
+    unrepresentable: "any",
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+  return Object.fromEntries(
+    Object.entries(schemas).map(([id, { $schema: _, $id: __, ...json }]) => [
+      id,
+      componentDescriptions[id] ? { description: componentDescriptions[id], ...json } : json,
+    ])
+  );
+}
+
+/** A `$ref` to the schema's component, or the schema inline if it has none. */
+function schemaRef(schema: z.ZodType, io: "input" | "output"): JsonSchema {
+  const named = components[io].find(([, candidate]) => candidate === schema);
+  return named ? { $ref: `#/components/schemas/${named[0]}` } : toJsonSchema(schema, io);
+}
+
+function parameters(contract: RouteContract): JsonSchema[] {
+  const headers = Object.entries(contract.headers ?? {}).map(([name, header]) => ({
+    name,
+    in: "header",
+    required: header.required ?? false,
+    description: header.description,
+    schema: { type: "string" },
+  }));
+  const params = Object.entries(contract.params ?? {}).map(([name, schema]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: toJsonSchema(schema, "input"),
+  }));
+  const query = contract.query ? toJsonSchema(contract.query, "input") : {};
+  const properties = (query.properties ?? {}) as Record<string, JsonSchema>;
+  const required = (query.required ?? []) as string[];
+  const queryParams = Object.entries(properties).map(([name, { description, ...schema }]) => ({
+    name,
+    in: "query",
+    required: required.includes(name),
+    ...(description ? { description } : {}),
+    schema,
+  }));
+  return [...headers, ...params, ...queryParams];
+}
+
+function operation(contract: RouteContract): JsonSchema {
+  const params = parameters(contract);
+  const responses = Object.fromEntries(
+    Object.entries(contract.responses).map(([status, response]) => {
+      const content: Record<string, JsonSchema> = response.schema
+        ? { "application/json": { schema: schemaRef(response.schema, "output") } }
+        : Object.fromEntries(
+            (response.contentTypes ?? []).map((type) => [type, { schema: { type: "string" } }])
+          );
+      return [status, { description: response.description, content }];
+    })
+  );
+  return {
+    tags: [contract.tag],
+    summary: contract.summary,
+    ...(contract.description ? { description: contract.description } : {}),
+    ...(contract.scope
+      ? { security: [{ apiKey: [] }], "x-required-scope": contract.scope }
+      : { security: [] }),
+    ...(params.length > 0 ? { parameters: params } : {}),
+    ...(contract.body
+      ? {
+          requestBody: {
+            required: true,
+            content: {
+              [contract.body.contentType]: { schema: schemaRef(contract.body.schema, "input") },
+            },
+          },
+        }
+      : {}),
+    responses,
+  };
+}
+
+/** `/contacts/:msisdn` becomes `/contacts/{msisdn}`. */
+function openApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, "{$1}");
+}
+
+/** The OpenAPI 3.1 document for every route in `routeContracts`. */
+export function buildOpenApiDocument(): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const contract of routeContracts) {
+    const path = openApiPath(contract.path);
+    paths[path] = { ...paths[path], [contract.method.toLowerCase()]: operation(contract) };
+  }
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Lyftr AI Webhook API",
+      version: "1.0.0",
+      description:
+        "Every response carries `X-Request-ID` and `traceparent`; send either to join an existing trace. Read routes take an API key as `Authorization: Bearer <key>`.",
+    },
+    tags: [
+      { name: "webhooks", description: "Signed ingestion from senders and providers." },
+      { name: "messages", description: "Stored messages and conversations." },
+      { name: "stats", description: "Aggregates over stored messages." },
+      { name: "admin", description: "Erasure and the webhook inbox. Needs the `admin` scope." },
+      { name: "operations", description: "Health, metrics and this document." },
+    ],
+    paths,
+    components: {
+      schemas: { ...componentSchemas("input"), ...componentSchemas("output") },
+      securitySchemes: {
+        apiKey: {
+          type: "http",
+          scheme: "bearer",
+          description: "A key from `bun run api-keys create`; each route needs one of its scopes.",
+        },
+      },
+    },
+  };
+}
+
+const contractsByRoute = new Map(routeContracts.map((c) => [`${c.method} ${c.path}`, c]));
+
+/**
+ * Why `body` does not match what the route documents for `status`, or null
+ * if it does. `path` is the Express route path.
+ */
+export function responseContractViolation(
+  method: string,
+  path: string,
+  status: number,
+  body: unknown
+): string | null {
+  const contract = contractsByRoute.get(`${method === "HEAD" ? "GET" : method} ${path}`);
+  if (!contract) return `${method} ${path} is not documented`;
+  const response = contract.responses[status];
+  if (!response) return `status ${status} is not documented for ${method} ${path}`;
+  if (!response.schema) return `status ${status} is documented as ${response.contentTypes?.join(", ")}`;
+  const parsed = response.schema.safeParse(body);
+  return parsed.success ? null : z.prettifyError(parsed.error);
+}
+
+/**
+ * Checks every JSON response against its route contract. A mismatch is
+ * logged and answered with 500 instead, so a contract break fails tests
+ * rather than reaching clients.
+ */
+export function validateResponses(logLevel: LogLevel): express.RequestHandler {
+  return (req, res, next) => {
+    const send = res.json.bind(res);
+    res.json = ((body: unknown) => {
+      // Requests that matched no route get the catch-all 404, which has no contract.
+      const path: string | undefined = req.route?.path;
+      if (path === undefined) return send(body);
+      const violation = responseContractViolation(req.method, path, res.statusCode, body);
+      if (violation === null) return send(body);
+
+      const ctx = res.locals.requestContext as RequestContext | undefined;
+      logJSON(
+        "ERROR",
+        {
+          event: "response_contract_violation",
+          request_id: ctx?.requestId,
+          trace_id: ctx?.traceId,
+          method: req.method,
+          path,
+          status: res.statusCode,
+          violation,
+        },
+        logLevel
+      );
+      res.status(500);
+      return send({ detail: `response does not match the API contract: ${violation}` });
+    }) as express.Response["json"];
+    next();
+  };
+}
+
+/** A dependency-free page that renders `/openapi.json`, served at `/docs`. */
+export const docsPage = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Lyftr AI Webhook API</title>
+<style>
+  body { font: 15px/1.5 system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 1rem 2rem; color: #1f2328; }
+  h2 { border-bottom: 1px solid #d0d7de; margin-top: 2rem; text-transform: capitalize; }
+  details { border: 1px solid #d0d7de; border-radius: 6px; margin: .5rem 0; padding: .25rem .75rem; }
+  summary { cursor: pointer; }
+  .method { display: inline-block; width: 4.5rem; font-weight: 600; font-family: monospace; }
+  .get { color: #0969da; } .post { color: #1a7f37; } .delete { color: #cf222e; }
+  code, pre { font-family: ui-monospace, monospace; font-size: 13px; }
+  pre { background: #f6f8fa; padding: .5rem; overflow: auto; max-height: 24rem; }
+  table { border-collapse: collapse; } td, th { text-align: left; padding: .15rem .75rem .15rem 0; vertical-align: top; }
+</style>
+</head>
+<body>
+<h1>Lyftr AI Webhook API</h1>
+<p id="intro">Loading <a href="openapi.json">openapi.json</a>…</p>
+<div id="operations"></div>
+<h2>Schemas</h2>
+<div id="schemas"></div>
+<script>
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) { node.setAttribute(key, attrs[key]); });
+    (children || []).forEach(function (child) {
+      node.appendChild(typeof child === "string" ? document.createTextNode(child) : child);
+    });
+    return node;
+  }
+  function schemaBlock(schema) {
+    if (schema && schema.$ref) {
+      var name = schema.$ref.split("/").pop();
+      return el("a", { href: "#schema-" + name }, [name]);
+    }
+    return el("pre", {}, [JSON.stringify(schema, null, 2)]);
+  }
+  function contentList(content) {
+    return el("ul", {}, Object.keys(content || {}).map(function (type) {
+      return el("li", {}, [el("code", {}, [type]), " ", schemaBlock(content[type].schema)]);
+    }));
+  }
+  fetch("openapi.json").then(function (r) { return r.json(); }).then(function (doc) {
+    document.getElementById("intro").textContent = doc.info.description;
+    var byTag = {};
+    Object.keys(doc.paths).forEach(function (path) {
+      Object.keys(doc.paths[path]).forEach(function (method) {
+        var op = doc.paths[path][method];
+        (byTag[op.tags[0]] = byTag[op.tags[0]] || []).push({ path: path, method: method, op: op });
+      });
+    });
+    var operations = document.getElementById("operations");
+    doc.tags.forEach(function (tag) {
+      operations.appendChild(el("h2", {}, [tag.name]));
+      operations.appendChild(el("p", {}, [tag.description]));
+      (byTag[tag.name] || []).forEach(function (entry) {
+        var op = entry.op;
+        var body = [el("summary", {}, [
+          el("span", { class: "method " + entry.method }, [entry.method.toUpperCase()]),
+          el("code", {}, [entry.path]), " — " + op.summary,
+        ])];
+        if (op.description) body.push(el("p", {}, [op.description]));
+        if (op["x-required-scope"]) body.push(el("p", {}, ["API key scope: ", el("code", {}, [op["x-required-scope"]])]));
+        if (op.parameters) {
+          body.push(el("h4", {}, ["Parameters"]));
+          body.push(el("table", {}, op.parameters.map(function (p) {
+            return el("tr", {}, [
+              el("td", {}, [el("code", {}, [p.name])]),
+              el("td", {}, [p.in + (p.required ? ", required" : "")]),
+              el("td", {}, [el("code", {}, [JSON.stringify(p.schema)])]),
+              el("td", {}, [p.description || ""]),
+            ]);
+          })));
+        }
+        if (op.requestBody) {
+          body.push(el("h4", {}, ["Request body"]));
+          body.push(contentList(op.requestBody.content));
+        }
+        body.push(el("h4", {}, ["Responses"]));
+        body.push(el("ul", {}, Object.keys(op.responses).map(function (status) {
+          var response = op.responses[status];
+          return el("li", {}, [el("strong", {}, [status]), " " + response.description, contentList(response.content)]);
+        })));
+        operations.appendChild(el("details", {}, body));
+      });
+    });
+    var schemas = document.getElementById("schemas");
+    Object.keys(doc.components.schemas).forEach(function (name) {
+      schemas.appendChild(el("details", { id: "schema-" + name }, [
+        el("summary", {}, [el("code", {}, [name])]),
+        el("pre", {}, [JSON.stringify(doc.components.schemas[name], null, 2)]),
+      ]));
+    });
+  });
+</script>
+</body>
+</html>
+`;
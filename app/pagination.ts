@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { isoUtcString } from "./models.ts";
+import type { MessageCursor } from "./storage.ts";
+
+const cursorPayloadSchema = z.object({
+  d: z.enum(["n", "p"]),
+  ts: isoUtcString,
+  id: z.string().min(1),
+});
+
+/**
+ * Cursors are opaque to clients: base64url-encoded JSON of the keyset
+ * position. Keep the encoded keys short; they end up in every page URL.
+ */
+export function encodeCursor(cursor: MessageCursor): string {
+  const payload = {
+    d: cursor.direction === "next" ? "n" : "p",
+    ts: cursor.ts,
+    id: cursor.message_id,
+  };
+  return Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+}
+
+export function decodeCursor(raw: string): MessageCursor | null {
+  let json: unknown;
+  try {
+    json = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+  const parsed = cursorPayloadSchema.safeParse(json);
+  if (!parsed.success) return null;
+  return {
+    direction: parsed.data.d === "n" ? "next" : "prev",
+    ts: parsed.data.ts,
+    message_id: parsed.data.id,
+  };
+}
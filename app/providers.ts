@@ -0,0 +1,327 @@
+import { z } from "zod";
+import type {
+  MediaType,
+  MessageStatus,
+  WebhookMessage,
+  WebhookStatusEvent,
+} from "./models.ts";
+
+export type Provider = "generic" | "meta" | "twilio";
+
+// Only the parts of the WhatsApp Cloud API envelope we read; everything else
+// (contacts, pricing, errors, ...) is ignored.
+const metaMediaSchema = z.object({
+  id: z.string(),
+  mime_type: z.string(),
+  sha256: z.string().optional(),
+  caption: z.string().optional(),
+  filename: z.string().optional(),
+});
+
+const metaMessageSchema = z.object({
+  id: z.string(),
+  from: z.string(),
+  timestamp: z.string(),
+  type: z.string(),
+  text: z.object({ body: z.string() }).optional(),
+  image: metaMediaSchema.optional(),
+  audio: metaMediaSchema.optional(),
+  video: metaMediaSchema.optional(),
+  document: metaMediaSchema.optional(),
+  sticker: metaMediaSchema.optional(),
+  location: z
+    .object({
+      latitude: z.number(),
+      longitude: z.number(),
+      name: z.string().optional(),
+      address: z.string().optional(),
+    })
+    .optional(),
+  contacts: z
+    .array(
+      z.object({
+        name: z.object({ formatted_name: z.string() }),
+        phones: z.array(z.object({ phone: z.string().optional() })).optional(),
+        emails: z.array(z.object({ email: z.string().optional() })).optional(),
+      })
+    )
+    .optional(),
+});
+
+type MetaMessage = z.infer<typeof metaMessageSchema>;
+type MetaMedia = z.infer<typeof metaMediaSchema>;
+
+const metaStatusSchema = z.object({
+  id: z.string(),
+  status: z.string(),
+  timestamp: z.string(),
+  recipient_id: z.string().optional(),
+  errors: z
+    .array(z.object({ code: z.union([z.number(), z.string()]).optional(), title: z.string().optional() }))
+    .optional(),
+});
+
+export const metaEnvelopeSchema = z.object({
+  object: z.string().optional(),
+  entry: z.array(
+    z.object({
+      changes: z.array(
+        z.object({
+          field: z.string().optional(),
+          value: z.object({
+            metadata: z
+              .object({ display_phone_number: z.string().optional() })
+              .optional(),
+            messages: z.array(metaMessageSchema).optional(),
+            statuses: z.array(metaStatusSchema).optional(),
+          }),
+        })
+      ),
+    })
+  ),
+});
+
+export type NormalizeResult =
+  | { ok: true; messages: WebhookMessage[]; statuses: WebhookStatusEvent[] }
+  | { ok: false; error: unknown };
+
+// Provider status vocabularies mapped onto ours; anything else (queued,
+// accepted, ...) is an intermediate state we do not track.
+const providerStatusMap: Record<string, MessageStatus> = {
+  sent: "sent",
+  delivered: "delivered",
+  read: "read",
+  failed: "failed",
+  undelivered: "failed",
+};
+
+/** Accepts `whatsapp:+1 555-000`, `15550001111`, etc. and returns `+digits`. */
+export function normalizeMsisdn(raw: string): string {
+  const withoutChannel = raw.replace(/^[a-z]+:/i, "");
+  const digits = withoutChannel.replace(/[\s\-().]/g, "");
+  return digits.startsWith("+") ? digits : `+${digits}`;
+}
+
+export function toIsoUtcSeconds(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+function unixSecondsToIso(raw: string): string {
+  const seconds = Number(raw);
+  if (!Number.isFinite(seconds)) return raw;
+  return toIsoUtcSeconds(new Date(seconds * 1000));
+}
+
+type MessageHeader = Pick<WebhookMessage, "message_id" | "from" | "to" | "ts">;
+
+/**
+ * Picks the typed variant for a Cloud API message. Stickers are stored as
+ * images; types we do not model (reactions, interactive replies, ...) keep
+ * their envelope as a text message without a body, as they did before.
+ */
+function mapMetaContent(header: MessageHeader, m: MetaMessage): WebhookMessage {
+  const media = (type: MediaType, content: MetaMedia | undefined): WebhookMessage | null =>
+    content
+      ? {
+          ...header,
+          type,
+          media: {
+            id: content.id,
+            mime_type: content.mime_type,
+            sha256: content.sha256,
+            caption: content.caption,
+            filename: content.filename,
+          },
+        }
+      : null;
+
+  let mapped: WebhookMessage | null = null;
+  switch (m.type) {
+    case "image":
+    case "audio":
+    case "video":
+    case "document":
+      mapped = media(m.type, m[m.type]);
+      break;
+    case "sticker":
+      mapped = media("image", m.sticker);
+      break;
+    case "location":
+      mapped = m.location ? { ...header, type: "location", location: m.location } : null;
+      break;
+    case "contacts":
+      mapped = m.contacts
+        ? {
+            ...header,
+            type: "contacts",
+            contacts: m.contacts.map((c) => ({
+              name: c.name.formatted_name,
+              phones: (c.phones ?? []).flatMap((p) => (p.phone ? [p.phone] : [])),
+              emails: (c.emails ?? []).flatMap((e) => (e.email ? [e.email] : [])),
+            })),
+          }
+        : null;
+      break;
+  }
+  return mapped ?? { ...header, type: "text", text: m.text?.body };
+}
+
+/**
+ * Flattens `entry[].changes[].value.messages[]` into our message shape and
+ * `value.statuses[]` into status events. The recipient of inbound messages
+ * is the business number from `value.metadata`; a message whose change
+ * lacks `display_phone_number` is rejected, since `phone_number_id` is
+ * Meta's id for the number rather than the number itself.
+ */
+export function normalizeMetaPayload(body: unknown): NormalizeResult {
+  const parsed = metaEnvelopeSchema.safeParse(body);
+  if (!parsed.success) {
+    return { ok: false, error: parsed.error.format() };
+  }
+
+  const messages: WebhookMessage[] = [];
+  const statuses: WebhookStatusEvent[] = [];
+  for (const entry of parsed.data.entry) {
+    for (const change of entry.changes) {
+      const to = change.value.metadata?.display_phone_number;
+      for (const m of change.value.messages ?? []) {
+        if (!to) {
+          const missing = "metadata.display_phone_number is required to know the recipient";
+          return {
+            ok: false,
+            error: { message_id: m.id, errors: { _errors: [], to: { _errors: [missing] } } },
+          };
+        }
+        const header = {
+          message_id: m.id,
+          from: normalizeMsisdn(m.from),
+          to: normalizeMsisdn(to),
+          ts: unixSecondsToIso(m.timestamp),
+        };
+        messages.push(mapMetaContent(header, m));
+      }
+      for (const st of change.value.statuses ?? []) {
+        const status = providerStatusMap[st.status];
+        if (!status) continue;
+        const error = st.errors?.[0];
+        statuses.push({
+          type: "status",
+          message_id: st.id,
+          status,
+          ts: unixSecondsToIso(st.timestamp),
+          recipient: st.recipient_id ? normalizeMsisdn(st.recipient_id) : undefined,
+          error_code: error?.code !== undefined ? String(error.code) : undefined,
+          error_message: error?.title,
+        });
+      }
+    }
+  }
+  return { ok: true, messages, statuses };
+}
+
+/**
+ * The Twilio form fields `normalizeTwilioPayload` reads, for the API
+ * document; Twilio sends many more, which are ignored.
+ */
+export const twilioCallbackSchema = z.looseObject({
+  MessageSid: z.string().optional(),
+  SmsMessageSid: z.string().optional().describe("Older name for `MessageSid`."),
+  From: z.string().optional(),
+  To: z.string().optional(),
+  Body: z.string().optional(),
+  NumMedia: z.string().optional(),
+  MediaUrl0: z.string().optional(),
+  MediaContentType0: z.string().optional(),
+  Latitude: z.string().optional(),
+  Longitude: z.string().optional(),
+  Label: z.string().optional(),
+  Address: z.string().optional(),
+  MessageStatus: z.string().optional().describe("Present on status callbacks."),
+  ErrorCode: z.string().optional(),
+  ErrorMessage: z.string().optional(),
+});
+
+/**
+ * Maps a Twilio inbound message or status callback (the latter carries
+ * `MessageStatus`). Twilio does not send an event timestamp, so the time we
+ * received the callback is used instead.
+ */
+export function normalizeTwilioPayload(
+  params: URLSearchParams,
+  receivedAt: Date = new Date()
+): NormalizeResult {
+  const sid = params.get("MessageSid") ?? params.get("SmsMessageSid");
+  const providerStatus = params.get("MessageStatus");
+  if (providerStatus !== null) {
+    if (!sid) return { ok: false, error: { detail: "MessageSid is required" } };
+    const status = providerStatusMap[providerStatus];
+    if (!status) return { ok: true, messages: [], statuses: [] };
+    const to = params.get("To");
+    return {
+      ok: true,
+      messages: [],
+      statuses: [
+        {
+          type: "status",
+          message_id: sid,
+          status,
+          ts: toIsoUtcSeconds(receivedAt),
+          recipient: to ? normalizeMsisdn(to) : undefined,
+          error_code: params.get("ErrorCode") ?? undefined,
+          error_message: params.get("ErrorMessage") ?? undefined,
+        },
+      ],
+    };
+  }
+
+  const from = params.get("From");
+  const to = params.get("To");
+  if (!sid || !from || !to) {
+    return {
+      ok: false,
+      error: { detail: "MessageSid, From and To are required" },
+    };
+  }
+
+  const header = {
+    message_id: sid,
+    from: normalizeMsisdn(from),
+    to: normalizeMsisdn(to),
+    ts: toIsoUtcSeconds(receivedAt),
+  };
+  return { ok: true, messages: [mapTwilioContent(header, params)], statuses: [] };
+}
+
+/**
+ * Twilio delivers the first attachment as `MediaUrl0`/`MediaContentType0`
+ * (the URL doubles as the media ID) and WhatsApp locations as
+ * `Latitude`/`Longitude`. The message body becomes the caption.
+ */
+function mapTwilioContent(header: MessageHeader, params: URLSearchParams): WebhookMessage {
+  const body = params.get("Body") || undefined;
+  const latitude = params.get("Latitude");
+  const longitude = params.get("Longitude");
+  if (latitude !== null && longitude !== null) {
+    return {
+      ...header,
+      type: "location",
+      location: {
+        latitude: Number(latitude),
+        longitude: Number(longitude),
+        name: params.get("Label") ?? undefined,
+        address: params.get("Address") ?? undefined,
+      },
+    };
+  }
+
+  const mediaUrl = params.get("MediaUrl0");
+  if (Number(params.get("NumMedia") ?? "0") > 0 && mediaUrl) {
+    const mimeType = params.get("MediaContentType0") ?? "application/octet-stream";
+    const prefix = mimeType.split("/")[0];
+    const type =
+      prefix === "image" || prefix === "audio" || prefix === "video" ? prefix : "document";
+    return { ...header, type, media: { id: mediaUrl, mime_type: mimeType, caption: body } };
+  }
+
+  return { ...header, type: "text", text: body };
+}
@@ -0,0 +1,323 @@
+import { z } from "zod";
+import {
+  isoUtcString,
+  messageStatusValues,
+  messageTypeValues,
+  phoneSchema,
+} from "./models.ts";
+import { limits, maxCheck } from "./limits.ts";
+import { exportFormatValues, type ExportFormat } from "./export.ts";
+import { decodeCursor } from "./pagination.ts";
+import { knownCountries, normalizePhone } from "./phone.ts";
+import {
+  timeseriesIntervalValues,
+  type ConversationFilters,
+  type MessageFilters,
+  type StatsFilters,
+  type TimeseriesFilters,
+} from "./storage.ts";
+
+export type QueryParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: { status: number; body: unknown } };
+
+// Numbers are compared in their canonical form, however they were written.
+const canonicalPhone = phoneSchema.transform((v) => normalizePhone(v)!);
+
+const phoneListParam = z
+  .string()
+  .transform((raw) =>
+    raw
+      .split(",")
+      // An unencoded "+" in a query string decodes to a space, so `from=+1555`
+      // arrives as " 1555"; put the plus back before validating.
+      .map((v) => v.replace(/^ (?=\d)/, "+").trim())
+      .filter((v) => v.length > 0)
+  )
+  .pipe(z.array(canonicalPhone).min(1, "at least one number required"))
+  .describe("One or more E.164 numbers, comma-separated or repeated; encode `+` as `%2B`.");
+
+export const phoneParam = z
+  .string()
+  // Restores a "+" decoded to a space, as in `phoneListParam`.
+  .transform((v) => v.replace(/^ (?=\d)/, "+").trim())
+  .pipe(canonicalPhone);
+
+const countryListParam = z
+  .string()
+  .transform((raw) =>
+    raw
+      .split(",")
+      .map((v) => v.trim().toUpperCase())
+      .filter((v) => v.length > 0)
+  )
+  .pipe(
+    z
+      .array(z.string().refine((v) => knownCountries.has(v), "unknown country code"))
+      .min(1, "at least one country required")
+  )
+  .describe("Sender regions (ISO 3166-1 alpha-2), comma-separated, e.g. `IN` or `US,CA`.");
+
+const booleanParam = z
+  .enum(["true", "false"], { error: "must be true or false" })
+  .transform((v) => v === "true");
+
+// created_at carries milliseconds; normalise so string comparison in SQL works.
+const instantParam = z.iso
+  .datetime({ offset: true, error: "must be an ISO-8601 timestamp" })
+  .transform((v) => new Date(v).toISOString());
+
+const pageLimitParam = z.coerce
+  .number()
+  .int()
+  .min(1)
+  .check(maxCheck(() => limits.pageSizeMax))
+  .default(() => limits.pageSizeDefault);
+
+export const messagesQuerySchema = z
+  .object({
+    limit: pageLimitParam,
+    offset: z.coerce.number().int().min(0).optional(),
+    from: phoneListParam.optional(),
+    to: phoneListParam.optional(),
+    country: countryListParam.optional(),
+    since: isoUtcString.optional(),
+    until: isoUtcString.optional(),
+    created_since: instantParam.optional(),
+    created_until: instantParam.optional(),
+    q: z.string().min(1).optional().describe("Full-text search over text and captions (FTS5 syntax; other text is searched as plain words)."),
+    has_text: booleanParam.optional(),
+    type: z.enum(messageTypeValues).optional(),
+    status: z.enum(messageStatusValues).optional(),
+    search: z
+      .enum(["fts", "substring"])
+      .default("fts")
+      .describe("`substring` matches `q` case-insensitively instead."),
+    sort: z.enum(["time", "relevance"]).default("time").describe("`relevance` needs `q`."),
+    order: z.enum(["asc", "desc"]).default("asc"),
+    cursor: z
+      .string()
+      .optional()
+      .describe("`next_cursor` or `prev_cursor` from a previous page; not with `offset`."),
+    include_total: booleanParam
+      .default(true)
+      .describe("`false` skips counting and returns `total: null`."),
+  })
+  .superRefine((query, ctx) => {
+    if (query.since && query.until && query.since > query.until) {
+      ctx.addIssue({ code: "custom", path: ["until"], message: "until must not be before since" });
+    }
+    if (query.created_since && query.created_until && query.created_since > query.created_until) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["created_until"],
+        message: "created_until must not be before created_since",
+      });
+    }
+    if (query.sort === "relevance" && (!query.q || query.search !== "fts")) {
+      ctx.addIssue({ code: "custom", path: ["sort"], message: "sort=relevance requires q with search=fts" });
+    }
+    if (query.cursor !== undefined) {
+      if (query.offset !== undefined) {
+        ctx.addIssue({ code: "custom", path: ["cursor"], message: "cursor and offset cannot be combined" });
+      }
+      if (query.sort === "relevance") {
+        ctx.addIssue({
+          code: "custom",
+          path: ["cursor"],
+          message: "cursor pagination is not available with sort=relevance",
+        });
+      }
+      if (!decodeCursor(query.cursor)) {
+        ctx.addIssue({ code: "custom", path: ["cursor"], message: "invalid cursor" });
+      }
+    }
+  });
+
+function mergeRepeatedParams(url: URL): Record<string, string> {
+  const raw: Record<string, string> = {};
+  for (const key of new Set(url.searchParams.keys())) {
+    raw[key] = url.searchParams.getAll(key).join(",");
+  }
+  return raw;
+}
+
+/**
+ * Parses `GET /messages` query parameters. Repeated `from`/`to` parameters
+ * are merged with comma-separated ones. Errors use zod's formatted shape,
+ * keyed by the offending parameter, like `/webhook` validation errors.
+ */
+export function parseMessagesQuery(url: URL): QueryParseResult<MessageFilters> {
+  const parsed = messagesQuerySchema.safeParse(mergeRepeatedParams(url));
+  if (!parsed.success) {
+    return { ok: false, error: { status: 422, body: parsed.error.format() } };
+  }
+
+  const query = parsed.data;
+  return {
+    ok: true,
+    value: {
+      limit: query.limit,
+      offset: query.offset ?? 0,
+      from: query.from,
+      to: query.to,
+      country: query.country,
+      since: query.since,
+      until: query.until,
+      createdSince: query.created_since,
+      createdUntil: query.created_until,
+      q: query.q,
+      hasText: query.has_text,
+      type: query.type,
+      status: query.status,
+      searchMode: query.search,
+      sort: query.sort,
+      order: query.order,
+      cursor: query.cursor !== undefined ? decodeCursor(query.cursor)! : undefined,
+      includeTotal: query.include_total,
+    },
+  };
+}
+
+export const conversationsQuerySchema = z.object({
+  limit: pageLimitParam,
+  offset: z.coerce.number().int().min(0).default(0),
+  participant: phoneParam.optional(),
+});
+
+/** Parses `GET /conversations` query parameters. */
+export function parseConversationsQuery(url: URL): QueryParseResult<ConversationFilters> {
+  const parsed = conversationsQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+  if (!parsed.success) {
+    return { ok: false, error: { status: 422, body: parsed.error.format() } };
+  }
+  return { ok: true, value: parsed.data };
+}
+
+/** Validates a number taken from a route path, e.g. `/contacts/:msisdn`. */
+export function parseMsisdnParam(name: string, value: string): QueryParseResult<string> {
+  const parsed = z.object({ [name]: phoneParam }).safeParse({ [name]: value });
+  if (!parsed.success) {
+    return { ok: false, error: { status: 422, body: parsed.error.format() } };
+  }
+  return { ok: true, value: parsed.data[name]! };
+}
+
+export const idParam = z
+  .string()
+  .regex(/^[1-9]\d{0,14}$/, "must be a positive integer")
+  .transform(Number);
+
+/** Validates a numeric row id taken from a route path, e.g. `/admin/dead-letters/:id`. */
+export function parseIdParam(name: string, value: string): QueryParseResult<number> {
+  const parsed = z.object({ [name]: idParam }).safeParse({ [name]: value });
+  if (!parsed.success) {
+    return { ok: false, error: { status: 422, body: parsed.error.format() } };
+  }
+  return { ok: true, value: parsed.data[name]! };
+}
+
+export const deadLettersQuerySchema = z.object({
+  limit: pageLimitParam,
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/** Parses `GET /admin/dead-letters` query parameters. */
+export function parseDeadLettersQuery(
+  url: URL
+): QueryParseResult<{ limit: number; offset: number }> {
+  const parsed = deadLettersQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+  if (!parsed.success) {
+    return { ok: false, error: { status: 422, body: parsed.error.format() } };
+  }
+  return { ok: true, value: parsed.data };
+}
+
+/** Validates the two numbers in `/conversations/:a/:b/messages`. */
+export function parseConversationPair(
+  a: string,
+  b: string
+): QueryParseResult<[string, string]> {
+  const parsed = z.object({ a: phoneParam, b: phoneParam }).safeParse({ a, b });
+  if (!parsed.success) {
+    return { ok: false, error: { status: 422, body: parsed.error.format() } };
+  }
+  return { ok: true, value: [parsed.data.a, parsed.data.b] };
+}
+
+const statsRangeShape = {
+  since: isoUtcString.optional(),
+  until: isoUtcString.optional(),
+  from: phoneListParam.optional(),
+};
+
+const checkStatsRange = (query: { since?: string; until?: string }, ctx: z.RefinementCtx) => {
+  if (query.since && query.until && query.since > query.until) {
+    ctx.addIssue({ code: "custom", path: ["until"], message: "until must not be before since" });
+  }
+};
+
+export const statsQuerySchema = z
+  .object({ ...statsRangeShape, top: z.coerce.number().int().min(1).max(100).default(10) })
+  .superRefine(checkStatsRange);
+
+export const timeseriesQuerySchema = z
+  .object({ ...statsRangeShape, interval: z.enum(timeseriesIntervalValues).default("day") })
+  .superRefine(checkStatsRange);
+
+/** Parses `GET /stats` query parameters; `from` works as on `/messages`. */
+export function parseStatsQuery(url: URL): QueryParseResult<StatsFilters> {
+  const parsed = statsQuerySchema.safeParse(mergeRepeatedParams(url));
+  if (!parsed.success) {
+    return { ok: false, error: { status: 422, body: parsed.error.format() } };
+  }
+  return { ok: true, value: parsed.data };
+}
+
+/** Parses `GET /stats/timeseries` query parameters. */
+export function parseTimeseriesQuery(url: URL): QueryParseResult<TimeseriesFilters> {
+  const parsed = timeseriesQuerySchema.safeParse(mergeRepeatedParams(url));
+  if (!parsed.success) {
+    return { ok: false, error: { status: 422, body: parsed.error.format() } };
+  }
+  return { ok: true, value: parsed.data };
+}
+
+// Paging and ranking make no sense for a full export.
+const EXPORT_UNSUPPORTED_PARAMS = ["limit", "offset", "cursor", "sort", "include_total"];
+
+const exportFormatParam = z.enum(exportFormatValues).default("ndjson");
+
+/** `GET /messages/export` parameters: `format` plus the `/messages` filters. */
+export const exportQuerySchema = z.object({
+  format: exportFormatParam,
+  ...Object.fromEntries(
+    Object.entries(messagesQuerySchema.shape).filter(
+      ([key]) => !EXPORT_UNSUPPORTED_PARAMS.includes(key)
+    )
+  ),
+});
+
+/**
+ * Parses `GET /messages/export` query parameters: `format` plus the same
+ * filters as `/messages`.
+ */
+export function parseExportQuery(
+  url: URL
+): QueryParseResult<{ format: ExportFormat; filters: MessageFilters }> {
+  const format = exportFormatParam.safeParse(url.searchParams.get("format") ?? undefined);
+  const rest = new URL(url);
+  rest.searchParams.delete("format");
+  const unsupported = EXPORT_UNSUPPORTED_PARAMS.filter((key) => rest.searchParams.has(key));
+
+  if (!format.success || unsupported.length > 0) {
+    const body: Record<string, unknown> = { _errors: [] };
+    if (!format.success) body.format = format.error.format();
+    for (const key of unsupported) body[key] = { _errors: ["not supported on export"] };
+    return { ok: false, error: { status: 422, body } };
+  }
+
+  const filters = parseMessagesQuery(rest);
+  if (!filters.ok) return filters;
+  return { ok: true, value: { format: format.data, filters: filters.value } };
+}
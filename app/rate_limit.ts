@@ -0,0 +1,93 @@
+import net from "net";
+
+export type RateLimit = {
+  /** Tokens refilled per second. */
+  ratePerSec: number;
+  /** Bucket size, i.e. the largest burst allowed after a quiet period. */
+  burst: number;
+};
+
+export type RateLimitDecision = { allowed: true } | { allowed: false; retryAfterSec: number };
+
+type Bucket = { tokens: number; updatedMs: number };
+
+// Bounds memory when keys are attacker-chosen (spoofed `from`, many IPs).
+const MAX_TRACKED_KEYS = 100_000;
+
+/**
+ * Token bucket per key. Each request takes one token; tokens refill
+ * continuously at `ratePerSec` up to `burst`.
+ */
+export class TokenBucketLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  private rejectedCount = 0;
+
+  constructor(readonly limit: RateLimit) {}
+
+  take(key: string, nowMs: number = Date.now()): RateLimitDecision {
+    const { ratePerSec, burst } = this.limit;
+    const bucket = this.buckets.get(key) ?? { tokens: burst, updatedMs: nowMs };
+    bucket.tokens = Math.min(burst, bucket.tokens + ((nowMs - bucket.updatedMs) / 1000) * ratePerSec);
+    bucket.updatedMs = nowMs;
+
+    // Re-insert so Map order tracks recency for eviction.
+    this.buckets.delete(key);
+    this.buckets.set(key, bucket);
+    if (this.buckets.size > MAX_TRACKED_KEYS) this.evict();
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true };
+    }
+    this.rejectedCount += 1;
+    return { allowed: false, retryAfterSec: Math.ceil((1 - bucket.tokens) / ratePerSec) };
+  }
+
+  get trackedKeys(): number {
+    return this.buckets.size;
+  }
+
+  get rejected(): number {
+    return this.rejectedCount;
+  }
+
+  /** Drops the least recently seen keys; a dropped key starts with a full bucket. */
+  private evict(): void {
+    for (const key of this.buckets.keys()) {
+      if (this.buckets.size <= MAX_TRACKED_KEYS) return;
+      this.buckets.delete(key);
+    }
+  }
+}
+
+/**
+ * Parses a comma-separated list of addresses and CIDR ranges, IPv4 or IPv6,
+ * e.g. `173.252.64.0/18, 2a03:2880::/32`. IPv4-mapped IPv6 clients match
+ * IPv4 ranges.
+ */
+export function parseAllowList(raw: string): net.BlockList {
+  const list = new net.BlockList();
+  for (const entry of raw.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const [address, prefix] = entry.split("/");
+    const family = net.isIP(address ?? "");
+    if (family === 0) throw new Error(`invalid address in allow-list: ${entry}`);
+    const type = family === 4 ? "ipv4" : "ipv6";
+    if (prefix === undefined) {
+      list.addAddress(address!, type);
+      continue;
+    }
+    const bits = Number(prefix);
+    if (!Number.isInteger(bits) || bits < 0 || bits > (family === 4 ? 32 : 128)) {
+      throw new Error(`invalid prefix length in allow-list: ${entry}`);
+    }
+    list.addSubnet(address!, bits, type);
+  }
+  return list;
+}
+
+export function isAllowListed(list: net.BlockList, ip: string | undefined): boolean {
+  if (!ip) return false;
+  const family = net.isIP(ip);
+  if (family === 0) return false;
+  return list.check(ip, family === 4 ? "ipv4" : "ipv6");
+}
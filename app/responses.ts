@@ -0,0 +1,216 @@
+/**
+ * Response bodies, one schema per shape a route can send. They feed the
+ * OpenAPI document and, with `VALIDATE_RESPONSES`, are checked against
+ * every JSON response (see `app/openapi.ts`).
+ */
+
+import { z } from "zod";
+import { webhookIngestModeValues } from "./inbox.ts";
+import { messageTypeValues, storedMessageSchema } from "./models.ts";
+import { deadLetterReasonValues, timeseriesIntervalValues } from "./storage.ts";
+
+export const errorSchema = z.strictObject({ detail: z.string() });
+
+/** zod's `.format()` output: `_errors` at each level, nested under the offending field. */
+export const formattedErrorsSchema = z
+  .looseObject({ _errors: z.array(z.string()) })
+  .describe("Errors keyed by field; each level has its own `_errors` list.");
+
+/** One invalid message out of a provider callback, with its formatted errors. */
+export const itemErrorsSchema = z.strictObject({
+  message_id: z.string(),
+  errors: formattedErrorsSchema,
+});
+
+export const validationErrorSchema = z.union([
+  errorSchema,
+  formattedErrorsSchema,
+  itemErrorsSchema,
+]);
+
+export const rateLimitedSchema = z.strictObject({
+  detail: z.literal("rate limited"),
+  retry_after_sec: z.number().int(),
+});
+
+export const webhookResultValues = [
+  "created",
+  "duplicate",
+  "conflict",
+  "status_recorded",
+  "status_duplicate",
+] as const;
+
+export const webhookOkSchema = z.strictObject({
+  status: z.literal("ok"),
+  result: z.enum(webhookResultValues),
+});
+
+export const webhookQueuedSchema = z.strictObject({
+  status: z.literal("accepted"),
+  result: z.literal("queued"),
+  inbox_id: z.number().int(),
+});
+
+export const webhookConflictSchema = z.strictObject({
+  detail: z.string(),
+  result: z.literal("conflict"),
+  message_id: z.string(),
+});
+
+export const batchResultSchema = z.strictObject({
+  created: z.number().int(),
+  duplicate: z.number().int(),
+  conflict: z.number().int(),
+  validation_error: z.number().int(),
+  results: z.array(
+    z.union([
+      z.strictObject({
+        index: z.number().int(),
+        message_id: z.string(),
+        status: z.enum(["created", "duplicate", "conflict"]),
+      }),
+      z.strictObject({
+        index: z.number().int(),
+        message_id: z.string().optional(),
+        status: z.literal("validation_error"),
+        errors: formattedErrorsSchema,
+      }),
+    ])
+  ),
+});
+
+/** Meta and Twilio callbacks answer with this once the whole callback is stored. */
+export const providerOkSchema = z.strictObject({ status: z.literal("ok") });
+
+export const providerConflictSchema = z.strictObject({
+  detail: z.string(),
+  result: z.literal("conflict"),
+  message_ids: z.array(z.string()),
+});
+
+export const healthSchema = z.strictObject({
+  status: z.enum(["live", "ready"]),
+});
+
+export const notReadySchema = z.union([
+  z.strictObject({ status: z.literal("shutting-down") }),
+  z.strictObject({ status: z.literal("not-ready"), db: z.boolean(), secret: z.boolean() }),
+]);
+
+const cursorSchema = z
+  .string()
+  .nullable()
+  .describe("Pass back as `cursor=` for the adjacent page; null at either end.");
+
+const messagesPageShape = {
+  data: z.array(storedMessageSchema),
+  total: z.number().int().nullable().describe("Null when `include_total=false`."),
+  limit: z.number().int(),
+  offset: z.number().int(),
+  next_cursor: cursorSchema,
+  prev_cursor: cursorSchema,
+};
+
+export const messagesPageSchema = z.strictObject(messagesPageShape);
+
+export const conversationMessagesPageSchema = z.strictObject({
+  participants: z.tuple([z.string(), z.string()]),
+  ...messagesPageShape,
+});
+
+export const conversationSchema = z.strictObject({
+  participants: z.tuple([z.string(), z.string()]).describe("Smaller number first."),
+  message_count: z.number().int(),
+  first_message_ts: z.string(),
+  last_message_ts: z.string(),
+  last_message: z.strictObject({
+    message_id: z.string(),
+    from: z.string(),
+    type: z.enum(messageTypeValues),
+    preview: z.string().nullable().describe("Text or caption, cut to 120 characters."),
+  }),
+});
+
+export const conversationsPageSchema = z.strictObject({
+  data: z.array(conversationSchema),
+  total: z.number().int(),
+  limit: z.number().int(),
+  offset: z.number().int(),
+});
+
+export const statsSchema = z.strictObject({
+  total_messages: z.number().int(),
+  senders_count: z.number().int(),
+  messages_per_sender: z.array(z.strictObject({ from: z.string(), count: z.number().int() })),
+  messages_per_country: z.array(
+    z.strictObject({
+      country: z.string().nullable(),
+      calling_code: z.string().nullable(),
+      count: z.number().int(),
+    })
+  ),
+  first_message_ts: z.string().nullable(),
+  last_message_ts: z.string().nullable(),
+});
+
+export const timeseriesSchema = z.strictObject({
+  interval: z.enum(timeseriesIntervalValues),
+  buckets: z.array(
+    z.strictObject({
+      start: z.string(),
+      messages: z.number().int(),
+      senders: z.number().int(),
+    })
+  ),
+});
+
+export const erasureSchema = z.strictObject({
+  erasure_id: z.number().int(),
+  subject_hash: z.string().describe("SHA-256 of the erased number."),
+  messages_deleted: z.number().int(),
+  statuses_deleted: z.number().int(),
+  conflicts_deleted: z.number().int(),
+  inbox_deleted: z.number().int(),
+  dead_letters_deleted: z.number().int(),
+  erased_at: z.string(),
+});
+
+export const inboxStatusSchema = z.strictObject({
+  mode: z.enum(webhookIngestModeValues),
+  pending: z.number().int(),
+  oldest_received_at: z.string().nullable(),
+  dead_letters: z.number().int(),
+});
+
+export const deadLetterSchema = z.strictObject({
+  id: z.number().int(),
+  inbox_id: z.number().int(),
+  body: z.string().describe("The raw request body, as received."),
+  request_id: z.string().nullable(),
+  trace_id: z.string().nullable(),
+  key_id: z.string().nullable(),
+  received_at: z.string(),
+  attempts: z.number().int(),
+  reason: z.enum(deadLetterReasonValues),
+  error: z.string(),
+  failed_at: z.string(),
+});
+
+export const deadLettersPageSchema = z.strictObject({
+  data: z.array(deadLetterSchema),
+  total: z.number().int(),
+  limit: z.number().int(),
+  offset: z.number().int(),
+});
+
+export const deadLetterRequeuedSchema = z.strictObject({
+  id: z.number().int(),
+  status: z.literal("requeued"),
+  inbox_id: z.number().int(),
+});
+
+export const deadLetterDiscardedSchema = z.strictObject({
+  id: z.number().int(),
+  status: z.literal("discarded"),
+});
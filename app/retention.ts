@@ -0,0 +1,53 @@
+import type { AppConfig } from "./config.ts";
+import { logJSON } from "./logging_utils.ts";
+import { recordRetentionRun } from "./metrics.ts";
+import { toIsoUtcSeconds } from "./providers.ts";
+import { purgeMessagesBefore, type PurgeResult } from "./storage.ts";
+
+const DAY_MS = 86_400_000;
+
+/** Purges messages whose `ts` is more than `days` days before `now`. */
+export function runRetention(
+  days: number,
+  logLevel: AppConfig["logLevel"],
+  now: Date = new Date()
+): PurgeResult {
+  const cutoff = toIsoUtcSeconds(new Date(now.getTime() - days * DAY_MS));
+  const start = performance.now();
+  const result = purgeMessagesBefore(cutoff);
+  recordRetentionRun(result);
+  logJSON(
+    "INFO",
+    {
+      event: "retention_purge",
+      retention_days: days,
+      cutoff,
+      ...result,
+      duration_ms: Math.round(performance.now() - start),
+    },
+    logLevel
+  );
+  return result;
+}
+
+/**
+ * Runs the retention purge at startup and then every
+ * `retentionIntervalSec`. Does nothing unless `RETENTION_DAYS` is set.
+ */
+export function startRetentionJob(config: AppConfig): ReturnType<typeof setInterval> | null {
+  const days = config.retentionDays;
+  if (days === null) return null;
+
+  const tick = () => {
+    try {
+      runRetention(days, config.logLevel);
+    } catch (err) {
+      logJSON("ERROR", { event: "retention_purge_failed", error: String(err) }, config.logLevel);
+    }
+  };
+  tick();
+  const timer = setInterval(tick, config.retentionIntervalSec * 1000);
+  // The job alone should not keep the process alive.
+  timer.unref();
+  return timer;
+}
@@ -11,10 +11,179 @@ export function isValidSignature(
 ): boolean {
   if (!secret || !provided) return false;
   const expected = computeHmac(secret, rawBody);
-  return timingSafeEqualHex(expected, provided);
+  return timingSafeEqualStr(expected, provided);
 }
 
-function timingSafeEqualHex(a: string, b: string): boolean {
+export type SignatureCheck =
+  | "ok"
+  | "invalid_signature"
+  | "unknown_key"
+  | "timestamp_missing"
+  | "stale_timestamp"
+  | "replayed_signature";
+
+export type TimestampPolicy = {
+  requireTimestamp: boolean;
+  toleranceSec: number;
+};
+
+/** One entry of the `/webhook` keyring; times are epoch ms. */
+export type WebhookKey = {
+  id: string;
+  secret: string;
+  notBefore: number | null;
+  expiresAt: number | null;
+};
+
+export type SignedRequest = {
+  signature: string | null;
+  timestamp: string | null;
+  keyId: string | null;
+  rawBody: string;
+};
+
+export type SignatureVerification = {
+  result: SignatureCheck;
+  keyId: string | null;
+  /** Set for accepted timestamped signatures; see `markSignatureUsed`. */
+  replay?: { signature: string; expiresAtMs: number };
+};
+
+export function isKeyActive(key: WebhookKey, nowMs: number): boolean {
+  if (key.notBefore !== null && nowMs < key.notBefore) return false;
+  if (key.expiresAt !== null && nowMs >= key.expiresAt) return false;
+  return true;
+}
+
+// Signatures accepted in timestamped mode, mapped to the epoch ms after which
+// their timestamp falls outside the tolerance window and they can be dropped.
+const seenSignatures = new Map<string, number>();
+let lastSweepMs = 0;
+
+function isSignatureSeen(signature: string, nowMs: number): boolean {
+  const expiresAt = seenSignatures.get(signature);
+  return expiresAt !== undefined && expiresAt > nowMs;
+}
+
+/**
+ * Records a verified timestamped signature so later requests carrying it are
+ * rejected as replays. Call it once the request has been accepted: one turned
+ * away by a rate limit or a storage failure can be retried as sent.
+ */
+export function markSignatureUsed(
+  verification: SignatureVerification,
+  nowMs: number = Date.now()
+): void {
+  if (!verification.replay) return;
+  if (nowMs - lastSweepMs > 1000) {
+    for (const [sig, expiresAt] of seenSignatures) {
+      if (expiresAt <= nowMs) seenSignatures.delete(sig);
+    }
+    lastSweepMs = nowMs;
+  }
+  seenSignatures.set(verification.replay.signature, verification.replay.expiresAtMs);
+}
+
+/**
+ * Verifies `X-Signature` for `/webhook` against every active key in the
+ * keyring, or only the key named by `X-Signature-Key-Id` when it is sent.
+ * When `X-Signature-Timestamp` (unix seconds) is sent, the signature must
+ * cover `timestamp + "." + body`, the timestamp must be within
+ * `toleranceSec` of now, and a signature already recorded with
+ * `markSignatureUsed` is rejected until it falls outside that window.
+ * Without the header the legacy body-only signature is checked, unless the
+ * policy requires timestamps.
+ */
+export function verifyWebhookSignature(
+  request: SignedRequest,
+  keys: WebhookKey[],
+  policy: TimestampPolicy,
+  nowMs: number = Date.now()
+): SignatureVerification {
+  const { signature, timestamp, keyId, rawBody } = request;
+
+  let candidates = keys.filter((k) => isKeyActive(k, nowMs));
+  if (keyId !== null) {
+    candidates = candidates.filter((k) => k.id === keyId);
+    if (candidates.length === 0) return { result: "unknown_key", keyId: null };
+  }
+
+  if (timestamp === null && policy.requireTimestamp) {
+    return { result: "timestamp_missing", keyId: null };
+  }
+  if (timestamp !== null && !/^\d{1,12}$/.test(timestamp)) {
+    return { result: "invalid_signature", keyId: null };
+  }
+
+  const signed = timestamp === null ? rawBody : `${timestamp}.${rawBody}`;
+  const matched = candidates.find((k) => isValidSignature(signature, k.secret, signed));
+  if (!matched) return { result: "invalid_signature", keyId: null };
+  if (timestamp === null) return { result: "ok", keyId: matched.id };
+
+  const signedAtMs = Number(timestamp) * 1000;
+  const toleranceMs = policy.toleranceSec * 1000;
+  if (Math.abs(nowMs - signedAtMs) > toleranceMs) {
+    return { result: "stale_timestamp", keyId: matched.id };
+  }
+
+  if (isSignatureSeen(signature!, nowMs)) {
+    return { result: "replayed_signature", keyId: matched.id };
+  }
+  return {
+    result: "ok",
+    keyId: matched.id,
+    replay: { signature: signature!, expiresAtMs: signedAtMs + toleranceMs },
+  };
+}
+
+/**
+ * Meta (WhatsApp Cloud API) signs the raw body with the app secret and sends
+ * it as `X-Hub-Signature-256: sha256=<hex>`.
+ */
+export function isValidMetaSignature(
+  provided: string | null,
+  appSecret: string | null,
+  rawBody: string
+): boolean {
+  if (!appSecret || !provided) return false;
+  const match = /^sha256=([0-9a-f]+)$/i.exec(provided.trim());
+  if (!match) return false;
+  const expected = computeHmac(appSecret, rawBody);
+  return timingSafeEqualStr(expected, match[1]!.toLowerCase());
+}
+
+/**
+ * Twilio signs the full request URL followed by every POST parameter
+ * (sorted by name, key immediately followed by value) with HMAC-SHA1 and
+ * base64-encodes the digest.
+ */
+export function computeTwilioSignature(
+  authToken: string,
+  url: string,
+  params: URLSearchParams
+): string {
+  const keys = [...new Set(params.keys())].sort();
+  let data = url;
+  for (const key of keys) {
+    for (const value of params.getAll(key)) {
+      data += key + value;
+    }
+  }
+  return createHmac("sha1", authToken).update(data).digest("base64");
+}
+
+export function isValidTwilioSignature(
+  provided: string | null,
+  authToken: string | null,
+  url: string,
+  params: URLSearchParams
+): boolean {
+  if (!authToken || !provided) return false;
+  const expected = computeTwilioSignature(authToken, url, params);
+  return timingSafeEqualStr(expected, provided.trim());
+}
+
+function timingSafeEqualStr(a: string, b: string): boolean {
   if (a.length !== b.length) return false;
   let mismatch = 0;
   for (let i = 0; i < a.length; i++) {
@@ -22,4 +191,3 @@ function timingSafeEqualHex(a: string, b: string): boolean {
   }
   return mismatch === 0;
 }
-
@@ -0,0 +1,26 @@
+import type http from "http";
+
+const IDLE_SWEEP_MS = 100;
+
+/**
+ * Stops accepting connections and resolves once every in-flight request has
+ * finished. Connections still busy after `timeoutMs` are cut off.
+ */
+export function drainServer(server: http.Server, timeoutMs: number): Promise<{ timedOut: boolean }> {
+  return new Promise((resolve) => {
+    let timedOut = false;
+    // A keep-alive connection goes idle once its request finishes, and would
+    // then hold close() open; keep closing idle connections as they appear.
+    const sweep = setInterval(() => server.closeIdleConnections(), IDLE_SWEEP_MS);
+    const timer = setTimeout(() => {
+      timedOut = true;
+      server.closeAllConnections();
+    }, timeoutMs);
+    server.close(() => {
+      clearInterval(sweep);
+      clearTimeout(timer);
+      resolve({ timedOut });
+    });
+    server.closeIdleConnections();
+  });
+}
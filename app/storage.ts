@@ -1,7 +1,17 @@
 import { Database } from "bun:sqlite";
+import { createHash } from "crypto";
 import fs from "fs";
 import path from "path";
-import type { StoredMessage, WebhookMessage } from "./models.ts";
+import { pendingMigrations, runMigrations } from "./migrate.ts";
+import { normalizePhone, phoneCountry } from "./phone.ts";
+import type {
+  MessageStatus,
+  MessageType,
+  StatusEntry,
+  StoredMessage,
+  WebhookMessage,
+  WebhookStatusEvent,
+} from "./models.ts";
 
 let db: Database | null = null;
 
@@ -32,19 +42,45 @@ function sqlitePathFromUrl(url: string): string {
   return url;
 }
 
-export function initDb(databaseUrl: string): Database {
+export const sqliteJournalModeValues = ["wal", "delete", "truncate", "persist"] as const;
+export const sqliteSynchronousValues = ["off", "normal", "full", "extra"] as const;
+
+export type SqliteOptions = {
+  journalMode: (typeof sqliteJournalModeValues)[number];
+  synchronous: (typeof sqliteSynchronousValues)[number];
+  /** How long a write waits for another connection's lock before failing. */
+  busyTimeoutMs: number;
+  /**
+   * Open an empty in-memory database when the file cannot be opened. Off by
+   * default: everything written to it is lost on exit.
+   */
+  allowMemoryFallback: boolean;
+};
+
+export const DEFAULT_SQLITE_OPTIONS: SqliteOptions = {
+  journalMode: "wal",
+  synchronous: "normal",
+  busyTimeoutMs: 5000,
+  allowMemoryFallback: false,
+};
+
+/** Opens (or creates) the SQLite database without touching its schema. */
+export function openDb(databaseUrl: string, options: Partial<SqliteOptions> = {}): Database {
+  const { journalMode, synchronous, busyTimeoutMs, allowMemoryFallback } = {
+    ...DEFAULT_SQLITE_OPTIONS,
+    ...options,
+  };
   const dbPath = sqlitePathFromUrl(databaseUrl);
-  let openedAs = "";
+  let database: Database;
+  let openedAs = dbPath === ":memory:" ? ":memory:" : `file:${dbPath}`;
 
   // Handle in-memory explicitly
   if (dbPath === ":memory:") {
-    db = new Database(":memory:");
-    openedAs = ":memory:";
+    database = new Database(":memory:");
   } else {
     // Ensure parent directory exists where possible. Some URL forms
     // may include leading slashes (e.g. `sqlite:////data/app.db`). If
-    // mkdir fails it's non-fatal — we'll try opening and fall back to
-    // an in-memory DB on error.
+    // mkdir fails it's non-fatal here; opening the file reports the error.
     try {
       const dir = path.dirname(dbPath);
       if (dir && dir !== ".") {
@@ -62,37 +98,83 @@ export function initDb(databaseUrl: string): Database {
     }
 
     try {
-      db = new Database(dbPath);
+      database = new Database(dbPath);
     } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      if (!allowMemoryFallback) {
+        throw new Error(`unable to open database file ${dbPath}: ${reason}`);
+      }
       console.error(
-        "Unable to open database file, falling back to in-memory DB:",
-        dbPath,
-        err
+        `Unable to open database file ${dbPath} (${reason}); falling back to an in-memory DB. Nothing written will survive a restart.`
       );
-      db = new Database(":memory:");
+      database = new Database(":memory:");
+      openedAs = ":memory: (fallback)";
     }
   }
-  if (!openedAs) {
-    // If openedAs wasn't set earlier, determine what we have now
-    openedAs = dbPath === ":memory:" ? ":memory:" : `file:${dbPath}`;
-    // If we fell back to in-memory the dbPath won't reflect that; detect by instanceof or string
-    try {
-      if (db && (db as any).filename === ":memory:") openedAs = ":memory:";
-    } catch {}
-  }
-
-  db.run(`
-    CREATE TABLE IF NOT EXISTS messages (
-      message_id TEXT PRIMARY KEY,
-      from_msisdn TEXT NOT NULL,
-      to_msisdn TEXT NOT NULL,
-      ts TEXT NOT NULL,
-      text TEXT,
-      created_at TEXT NOT NULL
-    )
-  `);
+
+  database.run(`PRAGMA busy_timeout = ${Math.max(0, Math.floor(busyTimeoutMs))}`);
+  if (openedAs.startsWith("file:")) {
+    database.run(`PRAGMA journal_mode = ${journalMode}`);
+  }
+  database.run(`PRAGMA synchronous = ${synchronous}`);
+
+  db = database;
   console.info("Database initialized:", openedAs);
-  return db;
+  return database;
+}
+
+/**
+ * Opens the database read-only, for inspecting it without side effects
+ * (`scripts/migrate.ts --status`). A file that does not exist is not
+ * created; an empty in-memory database stands in for it.
+ */
+export function openDbReadOnly(databaseUrl: string): Database {
+  const dbPath = sqlitePathFromUrl(databaseUrl);
+  if (dbPath === ":memory:" || !fs.existsSync(dbPath)) return new Database(":memory:");
+  return new Database(dbPath, { readonly: true });
+}
+
+/**
+ * Checkpoints the WAL into the main database file and closes it, so the
+ * file is complete on its own once the process exits.
+ */
+export function closeDb(): void {
+  if (!db) return;
+  const database = db;
+  db = null;
+  try {
+    database.run("PRAGMA wal_checkpoint(TRUNCATE)");
+  } finally {
+    database.close();
+  }
+}
+
+/**
+ * Opens the database and brings its schema up to date. With
+ * `migrate: false` (e.g. when migrations are run separately through
+ * `scripts/migrate.ts`) startup fails instead if any migration is pending.
+ * Either way a schema newer than this build is refused.
+ */
+export function initDb(
+  databaseUrl: string,
+  options: { migrate?: boolean } & Partial<SqliteOptions> = {}
+): Database {
+  const database = openDb(databaseUrl, options);
+  if (options.migrate === false) {
+    const pending = pendingMigrations(database);
+    if (pending.length > 0) {
+      throw new Error(
+        `database has ${pending.length} pending migration(s) (${pending
+          .map((m) => `${m.version}_${m.name}`)
+          .join(", ")}); run scripts/migrate.ts`
+      );
+    }
+  } else {
+    for (const m of runMigrations(database)) {
+      console.info("Applied migration:", `${m.version}_${m.name}`);
+    }
+  }
+  return database;
 }
 
 export function getDb(): Database {
@@ -105,120 +187,694 @@ export function getDb(): Database {
 export type MessageFilters = {
   limit: number;
   offset: number;
-  from?: string;
+  /** Any of these senders. */
+  from?: string[];
+  /** Any of these recipients. */
+  to?: string[];
+  /** Senders in any of these regions (ISO 3166-1 alpha-2). */
+  country?: string[];
+  /** Message time (`ts`) bounds, inclusive. */
   since?: string;
+  until?: string;
+  /** Ingest time (`created_at`) bounds, inclusive. */
+  createdSince?: string;
+  createdUntil?: string;
+  /** Both directions between these two numbers. */
+  participants?: [string, string];
   q?: string;
+  hasText?: boolean;
+  status?: MessageStatus;
+  type?: MessageType;
+  searchMode?: SearchMode;
+  sort?: MessageSort;
+  order?: SortOrder;
+  /** Keyset position; when set, `offset` is ignored. */
+  cursor?: MessageCursor;
+  includeTotal?: boolean;
+};
+
+export type CursorDirection = "next" | "prev";
+
+/** A position in the (ts, message_id) ordering plus which way to read from it. */
+export type MessageCursor = {
+  ts: string;
+  message_id: string;
+  direction: CursorDirection;
+};
+
+export type SearchMode = "fts" | "substring";
+export type MessageSort = "time" | "relevance";
+export type SortOrder = "asc" | "desc";
+
+/**
+ * Splits a typed message into the columns we store: `text` for text
+ * messages, `caption` for media (so `q` can search it), and the variant's
+ * structured body as JSON in `content`.
+ */
+function messageColumns(message: WebhookMessage): {
+  text: string | null;
+  caption: string | null;
+  content: string | null;
+} {
+  switch (message.type) {
+    case "text":
+      return { text: message.text ?? null, caption: null, content: null };
+    case "location":
+      return { text: null, caption: null, content: JSON.stringify(message.location) };
+    case "contacts":
+      return { text: null, caption: null, content: JSON.stringify(message.contacts) };
+    default:
+      return {
+        text: null,
+        caption: message.media.caption ?? null,
+        content: JSON.stringify(message.media),
+      };
+  }
+}
+
+type MessageContentColumns = {
+  from: string;
+  to: string;
+  ts: string;
+  type: MessageType;
+  text: string | null;
+  caption: string | null;
+  content: string | null;
 };
 
+/** SHA-256 over everything stored for a message except its id and ingest time. */
+function contentHash(c: MessageContentColumns): string {
+  return createHash("sha256")
+    .update(JSON.stringify([c.from, c.to, c.ts, c.type, c.text, c.caption, c.content]))
+    .digest("hex");
+}
+
+export type InsertMessageResult = {
+  created: boolean;
+  /** The same content was already stored under this `message_id`. */
+  dup: boolean;
+  /** Different content was already stored under this `message_id`; it was kept. */
+  conflict: boolean;
+};
+
+/**
+ * Stores a message. Reusing a `message_id` with identical content is an
+ * idempotent duplicate; with different content it is a conflict, recorded
+ * in `message_conflicts` while the stored message is left unchanged.
+ */
 export function insertMessage(
-  message: WebhookMessage
-): { created: boolean; dup: boolean } {
+  message: WebhookMessage,
+  requestId: string | null = null
+): InsertMessageResult {
   const database = getDb();
   const now = new Date().toISOString();
+  const { text, caption, content } = messageColumns(message);
+  // Validated payloads always normalise; anything else is stored as given.
+  const from = normalizePhone(message.from) ?? message.from;
+  const to = normalizePhone(message.to) ?? message.to;
+  const country = phoneCountry(from);
+  const hash = contentHash({ ...message, from, to, text, caption, content });
   try {
     const stmt = database.prepare(
-      `INSERT INTO messages (message_id, from_msisdn, to_msisdn, ts, text, created_at)
-       VALUES (?, ?, ?, ?, ?, ?)`
+      `INSERT INTO messages
+         (message_id, from_msisdn, to_msisdn, ts, text, created_at, type, caption, content,
+          content_hash, from_raw, to_raw, from_country, from_calling_code)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     );
     stmt.run(
       message.message_id,
+      from,
+      to,
+      message.ts,
+      text,
+      now,
+      message.type,
+      caption,
+      content,
+      hash,
       message.from,
       message.to,
-      message.ts,
-      message.text ?? null,
-      now
+      country?.country ?? null,
+      country?.callingCode ?? null
     );
-    return { created: true, dup: false };
+    return { created: true, dup: false, conflict: false };
   } catch (err) {
     if (
       err instanceof Error &&
       err.message.includes("UNIQUE constraint failed: messages.message_id")
     ) {
-      return { created: false, dup: true };
+      const conflict = recordConflictIfAny(message, hash, requestId, now);
+      return { created: false, dup: !conflict, conflict };
     }
     throw err;
   }
 }
 
+type StoredMessageRow = {
+  message_id: string;
+  from_msisdn: string;
+  to_msisdn: string;
+  ts: string;
+  type: MessageType;
+  text: string | null;
+  caption: string | null;
+  content: string | null;
+  content_hash: string | null;
+};
+
+/** Compares against the stored copy and records a conflict when they differ. */
+function recordConflictIfAny(
+  message: WebhookMessage,
+  hash: string,
+  requestId: string | null,
+  now: string
+): boolean {
+  const database = getDb();
+  const existing = database
+    .prepare(
+      `SELECT message_id, from_msisdn, to_msisdn, ts, type, text, caption, content, content_hash
+       FROM messages WHERE message_id = ?`
+    )
+    .get(message.message_id) as StoredMessageRow;
+  const existingHash =
+    existing.content_hash ??
+    contentHash({ ...existing, from: existing.from_msisdn, to: existing.to_msisdn });
+  if (existingHash === hash) return false;
+
+  const existingPayload = {
+    message_id: existing.message_id,
+    from: existing.from_msisdn,
+    to: existing.to_msisdn,
+    ts: existing.ts,
+    type: existing.type,
+    ...(existing.text !== null ? { text: existing.text } : {}),
+    ...contentFields(existing.type, existing.content),
+  };
+  database
+    .prepare(
+      `INSERT INTO message_conflicts
+         (message_id, existing_hash, incoming_hash, existing_payload, incoming_payload,
+          request_id, first_seen_at, last_seen_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (message_id, incoming_hash)
+       DO UPDATE SET occurrences = occurrences + 1, last_seen_at = excluded.last_seen_at`
+    )
+    .run(
+      message.message_id,
+      existingHash,
+      hash,
+      JSON.stringify(existingPayload),
+      JSON.stringify(message),
+      requestId,
+      now,
+      now
+    );
+  return true;
+}
+
+function contentFields(type: MessageType, content: string | null): Partial<StoredMessage> {
+  if (!content) return {};
+  const parsed = JSON.parse(content);
+  switch (type) {
+    case "text":
+      return {};
+    case "location":
+      return { location: parsed };
+    case "contacts":
+      return { contacts: parsed };
+    default:
+      return { media: parsed };
+  }
+}
+
+/**
+ * Appends a status event to the message's history. Replays of the same
+ * (message_id, status, ts) are reported as duplicates.
+ */
+export function insertStatusEvent(
+  event: WebhookStatusEvent
+): { created: boolean; dup: boolean } {
+  const database = getDb();
+  const result = database
+    .prepare(
+      `INSERT INTO message_statuses
+         (message_id, status, ts, recipient, error_code, error_message, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (message_id, status, ts) DO NOTHING`
+    )
+    .run(
+      event.message_id,
+      event.status,
+      event.ts,
+      event.recipient ?? null,
+      event.error_code ?? null,
+      event.error_message ?? null,
+      new Date().toISOString()
+    );
+  const created = result.changes > 0;
+  return { created, dup: !created };
+}
+
+/** Inserts several status events in one transaction; results follow input order. */
+export function insertStatusEvents(
+  events: WebhookStatusEvent[]
+): { created: boolean; dup: boolean }[] {
+  const database = getDb();
+  const insertAll = database.transaction((batch: WebhookStatusEvent[]) =>
+    batch.map((e) => insertStatusEvent(e))
+  );
+  return insertAll(events);
+}
+
+// Latest status wins by event time; ties go to whichever arrived last.
+const LATEST_STATUS_SQL = `(
+  SELECT s.status FROM message_statuses s
+  WHERE s.message_id = messages.message_id
+  ORDER BY s.ts DESC, s.id DESC
+  LIMIT 1
+)`;
+
+function loadStatusTimelines(messageIds: string[]): Map<string, StatusEntry[]> {
+  const timelines = new Map<string, StatusEntry[]>();
+  if (messageIds.length === 0) return timelines;
+
+  const placeholders = messageIds.map(() => "?").join(", ");
+  const rows = getDb()
+    .prepare(
+      `SELECT message_id, status, ts, recipient, error_code, error_message
+       FROM message_statuses
+       WHERE message_id IN (${placeholders})
+       ORDER BY ts ASC, id ASC`
+    )
+    .all(...messageIds) as (StatusEntry & { message_id: string })[];
+
+  for (const { message_id, ...entry } of rows) {
+    const timeline = timelines.get(message_id) ?? [];
+    timeline.push(entry);
+    timelines.set(message_id, timeline);
+  }
+  return timelines;
+}
+
+/** Inserts several messages in one transaction; results follow input order. */
+export function insertMessages(
+  messages: WebhookMessage[],
+  requestId: string | null = null
+): InsertMessageResult[] {
+  const database = getDb();
+  const insertAll = database.transaction((batch: WebhookMessage[]) =>
+    batch.map((m) => insertMessage(m, requestId))
+  );
+  return insertAll(messages);
+}
+
+export class InvalidSearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidSearchQueryError";
+  }
+}
+
 export function listMessages(filters: MessageFilters): {
   data: StoredMessage[];
-  total: number;
+  total: number | null;
+  nextCursor: MessageCursor | null;
+  prevCursor: MessageCursor | null;
 } {
   const database = getDb();
   const clauses: string[] = [];
   const params: any[] = [];
+  const useFts = Boolean(filters.q) && filters.searchMode !== "substring";
 
-  if (filters.from) {
-    clauses.push("from_msisdn = ?");
-    params.push(filters.from);
+  if (filters.from?.length) {
+    clauses.push(`messages.from_msisdn IN (${filters.from.map(() => "?").join(", ")})`);
+    params.push(...filters.from);
+  }
+  if (filters.to?.length) {
+    clauses.push(`messages.to_msisdn IN (${filters.to.map(() => "?").join(", ")})`);
+    params.push(...filters.to);
+  }
+  if (filters.country?.length) {
+    clauses.push(`messages.from_country IN (${filters.country.map(() => "?").join(", ")})`);
+    params.push(...filters.country);
+  }
+  if (filters.participants) {
+    const [a, b] = filters.participants;
+    clauses.push(
+      "((messages.from_msisdn = ? AND messages.to_msisdn = ?) OR (messages.from_msisdn = ? AND messages.to_msisdn = ?))"
+    );
+    params.push(a, b, b, a);
   }
   if (filters.since) {
-    clauses.push("ts >= ?");
+    clauses.push("messages.ts >= ?");
     params.push(filters.since);
   }
-  if (filters.q) {
-    clauses.push("LOWER(text) LIKE '%' || LOWER(?) || '%'");
-    params.push(filters.q);
+  if (filters.until) {
+    clauses.push("messages.ts <= ?");
+    params.push(filters.until);
+  }
+  if (filters.createdSince) {
+    clauses.push("messages.created_at >= ?");
+    params.push(filters.createdSince);
+  }
+  if (filters.createdUntil) {
+    clauses.push("messages.created_at <= ?");
+    params.push(filters.createdUntil);
+  }
+  if (filters.hasText !== undefined) {
+    clauses.push(
+      filters.hasText
+        ? "(messages.text IS NOT NULL AND messages.text <> '')"
+        : "(messages.text IS NULL OR messages.text = '')"
+    );
+  }
+  if (filters.q && useFts) {
+    clauses.push("messages_fts MATCH ?");
+    params.push(ftsMatchExpression(database, filters.q));
+  } else if (filters.q) {
+    clauses.push(
+      "(LOWER(messages.text) LIKE '%' || LOWER(?) || '%' OR LOWER(messages.caption) LIKE '%' || LOWER(?) || '%')"
+    );
+    params.push(filters.q, filters.q);
+  }
+  if (filters.type) {
+    clauses.push("messages.type = ?");
+    params.push(filters.type);
+  }
+  if (filters.status) {
+    clauses.push(`${LATEST_STATUS_SQL} = ?`);
+    params.push(filters.status);
   }
 
+  const from = useFts
+    ? "messages JOIN messages_fts ON messages_fts.rowid = messages.id"
+    : "messages";
   const where = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
 
+  // Keyset pagination walks (ts, message_id) in the requested order; a
+  // "prev" page is read against that order from the cursor and flipped back.
+  const cursor = filters.cursor;
+  const backwards = cursor?.direction === "prev";
+  const descending = filters.order === "desc";
+  const readDescending = descending !== backwards;
+  const pageClauses = [...clauses];
+  const pageParams = [...params];
+  if (cursor) {
+    pageClauses.push(`(messages.ts, messages.message_id) ${readDescending ? "<" : ">"} (?, ?)`);
+    pageParams.push(cursor.ts, cursor.message_id);
+  }
+  const pageWhere = pageClauses.length ? `WHERE ${pageClauses.join(" AND ")}` : "";
+  const dir = readDescending ? "DESC" : "ASC";
+
+  // bm25() is lower-is-better; ties fall back to the usual time order.
+  const orderBy =
+    useFts && filters.sort === "relevance"
+      ? "bm25(messages_fts) ASC, messages.ts ASC, messages.message_id ASC"
+      : `messages.ts ${dir}, messages.message_id ${dir}`;
+  const snippet = useFts
+    ? "snippet(messages_fts, -1, '<mark>', '</mark>', '…', 12)"
+    : "NULL";
+
+  // One extra row tells us whether another page follows.
   const sql = `
-      SELECT message_id, from_msisdn, to_msisdn, ts, text, created_at
-      FROM messages
-      ${where}
-      ORDER BY ts ASC, message_id ASC
+      SELECT messages.message_id, messages.from_msisdn, messages.to_msisdn, messages.ts,
+             messages.type, messages.text, messages.content, messages.created_at,
+             messages.from_country, messages.from_calling_code,
+             ${LATEST_STATUS_SQL} AS status,
+             ${snippet} AS snippet
+      FROM ${from}
+      ${pageWhere}
+      ORDER BY ${orderBy}
       LIMIT ? OFFSET ?
     `;
   let rawRows: any[] = [];
   try {
-    rawRows = database.prepare(sql).all(...params, filters.limit, filters.offset) as any[];
+    rawRows = database
+      .prepare(sql)
+      .all(...pageParams, filters.limit + 1, cursor ? 0 : filters.offset) as any[];
   } catch (err) {
-    console.error("listMessages SQL error", { sql, params, err: String(err) });
+    if (useFts) throw searchQueryError(err);
+    console.error("listMessages SQL error", { sql, params: pageParams, err: String(err) });
     throw err;
   }
 
-  const data = rawRows.map((r) => ({
-    message_id: r.message_id,
-    from: r.from_msisdn,
-    to: r.to_msisdn,
-    ts: r.ts,
-    text: r.text,
-    created_at: r.created_at,
-  })) as StoredMessage[];
-
-  const countSql = `SELECT COUNT(*) as count FROM messages ${where}`;
-  let totalRow: { count: number } = { count: 0 };
+  const hasMore = rawRows.length > filters.limit;
+  rawRows = rawRows.slice(0, filters.limit);
+  if (backwards) rawRows.reverse();
+
+  const timelines = loadStatusTimelines(rawRows.map((r) => r.message_id));
+  const data = rawRows.map((r) => {
+    const statuses = timelines.get(r.message_id) ?? [];
+    return {
+      message_id: r.message_id,
+      from: r.from_msisdn,
+      to: r.to_msisdn,
+      ts: r.ts,
+      type: r.type,
+      text: r.text,
+      ...contentFields(r.type, r.content),
+      created_at: r.created_at,
+      country: r.from_country ?? null,
+      calling_code: r.from_calling_code ?? null,
+      status: r.status ?? null,
+      statuses,
+      ...(useFts ? { snippet: r.snippet ?? null } : {}),
+    };
+  }) as StoredMessage[];
+
+  let total: number | null = null;
+  if (filters.includeTotal !== false) {
+    const countSql = `SELECT COUNT(*) as count FROM ${from} ${where}`;
+    try {
+      total = (database.prepare(countSql).get(...params) as { count: number }).count;
+    } catch (err) {
+      console.error("count SQL error", { countSql, params, err: String(err) });
+      throw err;
+    }
+  }
+
+  const first = data[0];
+  const last = data[data.length - 1];
+  const position = (m: StoredMessage | undefined, direction: CursorDirection) =>
+    m ? { ts: m.ts, message_id: m.message_id, direction } : null;
+
+  let nextCursor: MessageCursor | null;
+  let prevCursor: MessageCursor | null;
+  if (filters.sort === "relevance") {
+    // Rank order has no stable keyset; relevance results page by offset only.
+    nextCursor = null;
+    prevCursor = null;
+  } else if (!cursor) {
+    nextCursor = hasMore ? position(last, "next") : null;
+    prevCursor = filters.offset > 0 ? position(first, "prev") : null;
+  } else if (backwards) {
+    prevCursor = hasMore ? position(first, "prev") : null;
+    nextCursor = position(last, "next") ?? { ...cursor, direction: "next" };
+  } else {
+    nextCursor = hasMore ? position(last, "next") : null;
+    prevCursor = position(first, "prev") ?? { ...cursor, direction: "prev" };
+  }
+
+  return { data, total, nextCursor, prevCursor };
+}
+
+/**
+ * Every message matching `filters`, in time order, read in keyset batches so
+ * memory stays bounded however many rows match. Paging fields are ignored.
+ */
+export function* iterateMessages(
+  filters: MessageFilters,
+  batchSize = 500
+): Generator<StoredMessage> {
+  let cursor: MessageCursor | undefined;
+  for (;;) {
+    const page = listMessages({
+      ...filters,
+      limit: batchSize,
+      offset: 0,
+      sort: "time",
+      cursor,
+      includeTotal: false,
+    });
+    yield* page.data;
+    if (!page.nextCursor) return;
+    cursor = page.nextCursor;
+  }
+}
+
+/**
+ * `q` as a MATCH expression. Text that FTS5 cannot parse (`hi-there`,
+ * `don't`, `foo:bar`, a dangling `AND`) is searched as plain words instead:
+ * each whitespace-separated token becomes a quoted string, so every word
+ * must still match.
+ */
+function ftsMatchExpression(database: Database, q: string): string {
+  try {
+    database.prepare("SELECT 1 FROM messages_fts WHERE messages_fts MATCH ? LIMIT 1").get(q);
+    return q;
+  } catch (err) {
+    if (!(searchQueryError(err) instanceof InvalidSearchQueryError)) throw err;
+  }
+  return q
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((token) => `"${token.replaceAll('"', '""')}"`)
+    .join(" ");
+}
+
+/**
+ * FTS5 reports malformed MATCH expressions as generic SQLite errors; turn
+ * the ones caused by user input into `InvalidSearchQueryError`.
+ */
+function searchQueryError(err: unknown): unknown {
+  const message = err instanceof Error ? err.message : String(err);
+  if (/fts5|unterminated string|no such column|malformed MATCH/i.test(message)) {
+    return new InvalidSearchQueryError(`invalid search query: ${message}`);
+  }
+  return err;
+}
+
+export type ConversationFilters = {
+  limit: number;
+  offset: number;
+  participant?: string;
+};
+
+export type ConversationSummary = {
+  participants: [string, string];
+  message_count: number;
+  first_message_ts: string;
+  last_message_ts: string;
+  last_message: {
+    message_id: string;
+    from: string;
+    type: MessageType;
+    preview: string | null;
+  };
+};
+
+const PREVIEW_LENGTH = 120;
+
+// Messages keyed by their unordered participant pair, smaller number first.
+const CONVERSATION_PAIRS_SQL = `
+  SELECT
+    CASE WHEN from_msisdn < to_msisdn THEN from_msisdn ELSE to_msisdn END AS a,
+    CASE WHEN from_msisdn < to_msisdn THEN to_msisdn ELSE from_msisdn END AS b,
+    message_id, from_msisdn, ts, type, text, caption
+  FROM messages
+`;
+
+/**
+ * One row per participant pair, most recently active first, with the
+ * latest message of each thread as a preview.
+ */
+export function listConversations(filters: ConversationFilters): {
+  data: ConversationSummary[];
+  total: number;
+} {
+  const database = getDb();
+  const where = filters.participant ? "WHERE a = ? OR b = ?" : "";
+  const params = filters.participant ? [filters.participant, filters.participant] : [];
+
+  const sql = `
+    WITH pairs AS (${CONVERSATION_PAIRS_SQL}),
+    ranked AS (
+      SELECT *,
+        ROW_NUMBER() OVER (PARTITION BY a, b ORDER BY ts DESC, message_id DESC) AS rn,
+        COUNT(*) OVER (PARTITION BY a, b) AS message_count,
+        MIN(ts) OVER (PARTITION BY a, b) AS first_ts
+      FROM pairs
+      ${where}
+    )
+    SELECT a, b, message_count, first_ts, ts AS last_ts,
+           message_id, from_msisdn, type, text, caption
+    FROM ranked
+    WHERE rn = 1
+    ORDER BY last_ts DESC, a ASC, b ASC
+    LIMIT ? OFFSET ?
+  `;
+  let rows: any[] = [];
   try {
-    totalRow = database.prepare(countSql).get(...params) as { count: number };
+    rows = database.prepare(sql).all(...params, filters.limit, filters.offset) as any[];
   } catch (err) {
-    console.error("count SQL error", { countSql, params, err: String(err) });
+    console.error("listConversations SQL error", { sql, params, err: String(err) });
     throw err;
   }
 
+  const data = rows.map((r) => {
+    const preview: string | null = r.text ?? r.caption ?? null;
+    return {
+      participants: [r.a, r.b] as [string, string],
+      message_count: r.message_count,
+      first_message_ts: r.first_ts,
+      last_message_ts: r.last_ts,
+      last_message: {
+        message_id: r.message_id,
+        from: r.from_msisdn,
+        type: r.type,
+        preview: preview && preview.length > PREVIEW_LENGTH
+          ? `${preview.slice(0, PREVIEW_LENGTH)}…`
+          : preview,
+      },
+    };
+  });
+
+  const countSql = `
+    WITH pairs AS (${CONVERSATION_PAIRS_SQL})
+    SELECT COUNT(*) AS count FROM (SELECT 1 FROM pairs ${where} GROUP BY a, b)
+  `;
+  const totalRow = database.prepare(countSql).get(...params) as { count: number };
+
   return { data, total: totalRow.count };
 }
 
-export function getStats(): {
+export type StatsFilters = {
+  since?: string;
+  until?: string;
+  from?: string[];
+  top: number;
+};
+
+function statsWhere(filters: Omit<StatsFilters, "top">): { where: string; params: string[] } {
+  const clauses: string[] = [];
+  const params: string[] = [];
+  if (filters.from?.length) {
+    clauses.push(`from_msisdn IN (${filters.from.map(() => "?").join(", ")})`);
+    params.push(...filters.from);
+  }
+  if (filters.since) {
+    clauses.push("ts >= ?");
+    params.push(filters.since);
+  }
+  if (filters.until) {
+    clauses.push("ts <= ?");
+    params.push(filters.until);
+  }
+  return { where: clauses.length ? `WHERE ${clauses.join(" AND ")}` : "", params };
+}
+
+export function getStats(filters: StatsFilters = { top: 10 }): {
   total_messages: number;
   senders_count: number;
   messages_per_sender: { from: string; count: number }[];
+  /** Every sender region, largest first; unassigned calling codes have a null country. */
+  messages_per_country: { country: string | null; calling_code: string | null; count: number }[];
   first_message_ts: string | null;
   last_message_ts: string | null;
 } {
   const database = getDb();
+  const { where, params } = statsWhere(filters);
 
   const totalRow = database
-    .prepare("SELECT COUNT(*) as count FROM messages")
-    .get() as { count: number };
+    .prepare(`SELECT COUNT(*) as count FROM messages ${where}`)
+    .get(...params) as { count: number };
 
   let senderRow: { count: number } = { count: 0 };
+  const senderSql = `SELECT COUNT(DISTINCT from_msisdn) as count FROM messages ${where}`;
   try {
-    senderRow = database
-      .prepare("SELECT COUNT(DISTINCT from_msisdn) as count FROM messages")
-      .get() as { count: number };
+    senderRow = database.prepare(senderSql).get(...params) as { count: number };
   } catch (err) {
-    console.error("getStats senderRow SQL error", { sql: "SELECT COUNT(DISTINCT from_msisdn) as count FROM messages", err: String(err) });
+    console.error("getStats senderRow SQL error", { sql: senderSql, err: String(err) });
     throw err;
   }
 
@@ -227,34 +883,45 @@ export function getStats(): {
       `
       SELECT from_msisdn, COUNT(*) as count
       FROM messages
+      ${where}
       GROUP BY from_msisdn
-      ORDER BY count DESC
-      LIMIT 10
+      ORDER BY count DESC, from_msisdn ASC
+      LIMIT ?
     `
     )
-    .all() as { from_msisdn: string; count: number }[];
+    .all(...params, filters.top) as { from_msisdn: string; count: number }[];
 
   const messagesPerSender = rawMessagesPerSender.map((r) => ({
     from: r.from_msisdn,
     count: r.count,
   }));
 
+  const messagesPerCountry = database
+    .prepare(
+      `
+      SELECT from_country AS country, from_calling_code AS calling_code, COUNT(*) as count
+      FROM messages
+      ${where}
+      GROUP BY from_country, from_calling_code
+      ORDER BY count DESC, country ASC
+    `
+    )
+    .all(...params) as { country: string | null; calling_code: string | null; count: number }[];
+
   let firstRow: { ts?: string } | undefined;
   let lastRow: { ts?: string } | undefined;
+  const firstSql = `SELECT ts FROM messages ${where} ORDER BY ts ASC, message_id ASC LIMIT 1`;
   try {
-    firstRow = database
-      .prepare("SELECT ts FROM messages ORDER BY ts ASC, message_id ASC LIMIT 1")
-      .get() as { ts?: string } | undefined;
+    firstRow = database.prepare(firstSql).get(...params) as { ts?: string } | undefined;
   } catch (err) {
-    console.error("getStats firstRow SQL error", { sql: "SELECT ts FROM messages ORDER BY ts ASC, message_id ASC LIMIT 1", err: String(err) });
+    console.error("getStats firstRow SQL error", { sql: firstSql, err: String(err) });
     throw err;
   }
+  const lastSql = `SELECT ts FROM messages ${where} ORDER BY ts DESC, message_id DESC LIMIT 1`;
   try {
-    lastRow = database
-      .prepare("SELECT ts FROM messages ORDER BY ts DESC, message_id DESC LIMIT 1")
-      .get() as { ts?: string } | undefined;
+    lastRow = database.prepare(lastSql).get(...params) as { ts?: string } | undefined;
   } catch (err) {
-    console.error("getStats lastRow SQL error", { sql: "SELECT ts FROM messages ORDER BY ts DESC, message_id DESC LIMIT 1", err: String(err) });
+    console.error("getStats lastRow SQL error", { sql: lastSql, err: String(err) });
     throw err;
   }
 
@@ -262,11 +929,527 @@ export function getStats(): {
     total_messages: totalRow?.count ?? 0,
     senders_count: senderRow?.count ?? 0,
     messages_per_sender: messagesPerSender,
+    messages_per_country: messagesPerCountry,
     first_message_ts: firstRow?.ts ?? null,
     last_message_ts: lastRow?.ts ?? null,
   };
 }
 
+export const timeseriesIntervalValues = ["hour", "day", "week"] as const;
+export type TimeseriesInterval = (typeof timeseriesIntervalValues)[number];
+
+export type TimeseriesFilters = Omit<StatsFilters, "top"> & {
+  interval: TimeseriesInterval;
+};
+
+export type TimeseriesBucket = {
+  start: string;
+  messages: number;
+  senders: number;
+};
+
+export const MAX_TIMESERIES_BUCKETS = 5000;
+
+export class TimeseriesRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TimeseriesRangeError";
+  }
+}
+
+// Bucket start for `ts`, formatted like stored timestamps so SQL and JS agree.
+// Weeks start on Monday (ISO-8601).
+const BUCKET_SQL: Record<TimeseriesInterval, string> = {
+  hour: "strftime('%Y-%m-%dT%H:00:00Z', ts)",
+  day: "strftime('%Y-%m-%dT00:00:00Z', ts)",
+  week: "date(ts, printf('-%d days', (CAST(strftime('%w', ts) AS INTEGER) + 6) % 7)) || 'T00:00:00Z'",
+};
+
+const INTERVAL_MS: Record<TimeseriesInterval, number> = {
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 7 * 86_400_000,
+};
+
+function bucketStart(ts: string, interval: TimeseriesInterval): number {
+  const date = new Date(ts);
+  if (interval === "hour") {
+    date.setUTCMinutes(0, 0, 0);
+  } else {
+    date.setUTCHours(0, 0, 0, 0);
+    if (interval === "week") date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  }
+  return date.getTime();
+}
+
+/**
+ * Message and distinct-sender counts per hour/day/week bucket (UTC). Every
+ * bucket between `since` and `until` is returned, empty ones with zeros; when
+ * a bound is omitted the first/last matching message is used instead.
+ */
+export function getMessageTimeseries(filters: TimeseriesFilters): {
+  interval: TimeseriesInterval;
+  buckets: TimeseriesBucket[];
+} {
+  const database = getDb();
+  const { where, params } = statsWhere(filters);
+  const sql = `
+    SELECT ${BUCKET_SQL[filters.interval]} AS bucket,
+      COUNT(*) AS messages,
+      COUNT(DISTINCT from_msisdn) AS senders
+    FROM messages
+    ${where}
+    GROUP BY bucket
+    ORDER BY bucket ASC
+  `;
+  let rows: { bucket: string; messages: number; senders: number }[] = [];
+  try {
+    rows = database.prepare(sql).all(...params) as typeof rows;
+  } catch (err) {
+    console.error("getMessageTimeseries SQL error", { sql, params, err: String(err) });
+    throw err;
+  }
+
+  const first = filters.since ?? rows[0]?.bucket;
+  const last = filters.until ?? rows[rows.length - 1]?.bucket;
+  if (!first || !last) return { interval: filters.interval, buckets: [] };
+
+  const step = INTERVAL_MS[filters.interval];
+  const startMs = bucketStart(first, filters.interval);
+  const endMs = bucketStart(last, filters.interval);
+  if ((endMs - startMs) / step + 1 > MAX_TIMESERIES_BUCKETS) {
+    throw new TimeseriesRangeError(
+      `range spans more than ${MAX_TIMESERIES_BUCKETS} ${filters.interval} buckets; narrow since/until or use a wider interval`
+    );
+  }
+
+  const byBucket = new Map(rows.map((r) => [r.bucket, r]));
+  const buckets: TimeseriesBucket[] = [];
+  for (let ms = startMs; ms <= endMs; ms += step) {
+    const start = new Date(ms).toISOString().replace(/\.\d{3}Z$/, "Z");
+    const row = byBucket.get(start);
+    buckets.push({ start, messages: row?.messages ?? 0, senders: row?.senders ?? 0 });
+  }
+  return { interval: filters.interval, buckets };
+}
+
+export type PurgeResult = {
+  messages_deleted: number;
+  statuses_deleted: number;
+  /** `message_conflicts` rows recorded against the deleted messages. */
+  conflicts_deleted: number;
+  /** Raw webhook bodies still waiting in `inbox`. */
+  inbox_deleted: number;
+  dead_letters_deleted: number;
+};
+
+const PURGE_BATCH_SIZE = 1000;
+
+/**
+ * Deletes messages with `ts` before `cutoff`, plus their status events and
+ * recorded conflicts, in batches so the write lock is never held for long.
+ * A status is never older than its message, so any status left before the
+ * cutoff belongs to no stored message and goes too, as do inbox items and
+ * dead letters received before it.
+ */
+export function purgeMessagesBefore(cutoff: string): PurgeResult {
+  const database = getDb();
+  const batchSql = "SELECT message_id FROM messages WHERE ts < ? ORDER BY ts LIMIT ?";
+  const purgeBatch = database.transaction(() => {
+    const statuses = database
+      .prepare(`DELETE FROM message_statuses WHERE message_id IN (${batchSql})`)
+      .run(cutoff, PURGE_BATCH_SIZE).changes;
+    const conflicts = database
+      .prepare(`DELETE FROM message_conflicts WHERE message_id IN (${batchSql})`)
+      .run(cutoff, PURGE_BATCH_SIZE).changes;
+    // `changes` would also count the FTS trigger's writes, so count first.
+    const { messages } = database
+      .prepare(`SELECT COUNT(*) AS messages FROM (${batchSql})`)
+      .get(cutoff, PURGE_BATCH_SIZE) as { messages: number };
+    database
+      .prepare(`DELETE FROM messages WHERE message_id IN (${batchSql})`)
+      .run(cutoff, PURGE_BATCH_SIZE);
+    return { messages, statuses, conflicts };
+  });
+
+  const result: PurgeResult = {
+    messages_deleted: 0,
+    statuses_deleted: 0,
+    conflicts_deleted: 0,
+    inbox_deleted: 0,
+    dead_letters_deleted: 0,
+  };
+  for (;;) {
+    const batch = purgeBatch();
+    result.messages_deleted += batch.messages;
+    result.statuses_deleted += batch.statuses;
+    result.conflicts_deleted += batch.conflicts;
+    if (batch.messages < PURGE_BATCH_SIZE) break;
+  }
+  result.statuses_deleted += database
+    .prepare("DELETE FROM message_statuses WHERE ts < ?")
+    .run(cutoff).changes;
+  result.inbox_deleted = database
+    .prepare("DELETE FROM inbox WHERE received_at < ?")
+    .run(cutoff).changes;
+  result.dead_letters_deleted = database
+    .prepare("DELETE FROM dead_letters WHERE received_at < ?")
+    .run(cutoff).changes;
+  return result;
+}
+
+export type ErasureRecord = PurgeResult & {
+  erasure_id: number;
+  subject_hash: string;
+  erased_at: string;
+};
+
+/** How a number is identified in `erasures` once its data is gone. */
+export function erasureSubjectHash(msisdn: string): string {
+  return createHash("sha256").update(msisdn).digest("hex");
+}
+
+/**
+ * Whether a stored JSON payload names `msisdn` as its sender, recipient or
+ * status recipient. Numbers are compared in canonical form, as they are
+ * kept as sent; a payload that is not JSON names no one.
+ */
+function payloadMentions(payload: string, msisdn: string): boolean {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(payload);
+  } catch {
+    return false;
+  }
+  if (typeof parsed !== "object" || parsed === null) return false;
+  const { from, to, recipient } = parsed as Record<string, unknown>;
+  return [from, to, recipient].some(
+    (number) => typeof number === "string" && (normalizePhone(number) ?? number) === msisdn
+  );
+}
+
+// `column` without the formatting `normalizePhone` drops, so a number can be
+// found in a payload however it was written.
+const withoutPhoneFormatting = (column: string) =>
+  [" ", "(", ")", ".", "-"].reduce((sql, char) => `replace(${sql}, '${char}', '')`, column);
+
+/**
+ * Deletes the rows of `table` with a JSON column naming `msisdn`; returns how
+ * many. SQL narrows the table to rows containing the number's digits, and
+ * only those are parsed.
+ */
+function deleteRowsMentioning(table: string, columns: string[], msisdn: string): number {
+  const database = getDb();
+  const candidates = columns
+    .map((column) => `instr(${withoutPhoneFormatting(column)}, ?) > 0`)
+    .join(" OR ");
+  const rows = database
+    .prepare(`SELECT id, ${columns.join(", ")} FROM ${table} WHERE ${candidates}`)
+    .all(...columns.map(() => msisdn.slice(1))) as ({ id: number } & Record<string, unknown>)[];
+  const remove = database.prepare(`DELETE FROM ${table} WHERE id = ?`);
+  let deleted = 0;
+  for (const row of rows) {
+    if (columns.some((column) => payloadMentions(String(row[column]), msisdn))) {
+      deleted += remove.run(row.id).changes;
+    }
+  }
+  return deleted;
+}
+
+/**
+ * Erases every message sent to or from `msisdn`, their status events and
+ * status events addressed to it, plus the conflicts, inbox items and dead
+ * letters whose payloads name it, and records a tombstone in one
+ * transaction.
+ */
+export function eraseContact(msisdn: string, requestId: string | null = null): ErasureRecord {
+  const database = getDb();
+  const erase = database.transaction((): ErasureRecord => {
+    const statusesOfMessages = database
+      .prepare(
+        `DELETE FROM message_statuses WHERE message_id IN (
+           SELECT message_id FROM messages WHERE from_msisdn = ? OR to_msisdn = ?
+         )`
+      )
+      .run(msisdn, msisdn).changes;
+    const statusesToRecipient = database
+      .prepare("DELETE FROM message_statuses WHERE recipient = ?")
+      .run(msisdn).changes;
+    const { messages } = database
+      .prepare("SELECT COUNT(*) AS messages FROM messages WHERE from_msisdn = ? OR to_msisdn = ?")
+      .get(msisdn, msisdn) as { messages: number };
+    database
+      .prepare("DELETE FROM messages WHERE from_msisdn = ? OR to_msisdn = ?")
+      .run(msisdn, msisdn);
+    const conflicts = deleteRowsMentioning(
+      "message_conflicts",
+      ["existing_payload", "incoming_payload"],
+      msisdn
+    );
+    const inbox = deleteRowsMentioning("inbox", ["body"], msisdn);
+    const deadLetters = deleteRowsMentioning("dead_letters", ["body"], msisdn);
+
+    const subjectHash = erasureSubjectHash(msisdn);
+    const erasedAt = new Date().toISOString();
+    const statuses = statusesOfMessages + statusesToRecipient;
+    const inserted = database
+      .prepare(
+        `INSERT INTO erasures
+           (subject_hash, messages_deleted, statuses_deleted, conflicts_deleted, inbox_deleted,
+            dead_letters_deleted, request_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(subjectHash, messages, statuses, conflicts, inbox, deadLetters, requestId, erasedAt);
+    return {
+      erasure_id: Number(inserted.lastInsertRowid),
+      subject_hash: subjectHash,
+      messages_deleted: messages,
+      statuses_deleted: statuses,
+      conflicts_deleted: conflicts,
+      inbox_deleted: inbox,
+      dead_letters_deleted: deadLetters,
+      erased_at: erasedAt,
+    };
+  });
+  return erase();
+}
+
+export type ApiKeyRow = {
+  id: string;
+  name: string;
+  secret_hash: string;
+  /** Space-separated. */
+  scopes: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+};
+
+export function insertApiKey(
+  key: Pick<ApiKeyRow, "id" | "name" | "secret_hash" | "scopes">
+): ApiKeyRow {
+  const row: ApiKeyRow = {
+    ...key,
+    created_at: new Date().toISOString(),
+    last_used_at: null,
+    revoked_at: null,
+  };
+  getDb()
+    .prepare(
+      "INSERT INTO api_keys (id, name, secret_hash, scopes, created_at) VALUES (?, ?, ?, ?, ?)"
+    )
+    .run(row.id, row.name, row.secret_hash, row.scopes, row.created_at);
+  return row;
+}
+
+export function findApiKey(id: string): ApiKeyRow | null {
+  return (getDb().prepare("SELECT * FROM api_keys WHERE id = ?").get(id) as ApiKeyRow | null) ?? null;
+}
+
+export function listApiKeyRows(): ApiKeyRow[] {
+  return getDb().prepare("SELECT * FROM api_keys ORDER BY created_at, id").all() as ApiKeyRow[];
+}
+
+/** Returns false when the key does not exist or was already revoked. */
+export function revokeApiKey(id: string): boolean {
+  const result = getDb()
+    .prepare("UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL")
+    .run(new Date().toISOString(), id);
+  return result.changes > 0;
+}
+
+export function touchApiKey(id: string, usedAt: string): void {
+  getDb().prepare("UPDATE api_keys SET last_used_at = ? WHERE id = ?").run(usedAt, id);
+}
+
+export type InboxRow = {
+  id: number;
+  /** The raw request body, exactly as signed. */
+  body: string;
+  request_id: string | null;
+  trace_id: string | null;
+  key_id: string | null;
+  received_at: string;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+};
+
+export function enqueueInbox(
+  item: Pick<InboxRow, "body" | "request_id" | "trace_id" | "key_id">,
+  receivedAt: string = new Date().toISOString()
+): number {
+  const result = getDb()
+    .prepare(
+      `INSERT INTO inbox (body, request_id, trace_id, key_id, received_at, next_attempt_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    )
+    .run(item.body, item.request_id, item.trace_id, item.key_id, receivedAt, receivedAt);
+  return Number(result.lastInsertRowid);
+}
+
+/** Items whose next attempt is due at `now`, oldest first. */
+export function dueInboxItems(now: string, limit: number): InboxRow[] {
+  return getDb()
+    .prepare(
+      "SELECT * FROM inbox WHERE next_attempt_at <= ? ORDER BY next_attempt_at, id LIMIT ?"
+    )
+    .all(now, limit) as InboxRow[];
+}
+
+/**
+ * Runs `apply` and removes the inbox item in the same transaction, so an
+ * item is either fully processed and gone or untouched.
+ */
+export function completeInboxItem<T>(id: number, apply: () => T): T {
+  const database = getDb();
+  const complete = database.transaction(() => {
+    const result = apply();
+    database.prepare("DELETE FROM inbox WHERE id = ?").run(id);
+    return result;
+  });
+  return complete();
+}
+
+export function scheduleInboxRetry(
+  id: number,
+  attempts: number,
+  nextAttemptAt: string,
+  error: string
+): void {
+  getDb()
+    .prepare("UPDATE inbox SET attempts = ?, next_attempt_at = ?, last_error = ? WHERE id = ?")
+    .run(attempts, nextAttemptAt, error, id);
+}
+
+export const deadLetterReasonValues = ["invalid_json", "validation_error", "retries_exhausted"] as const;
+export type DeadLetterReason = (typeof deadLetterReasonValues)[number];
+
+export type DeadLetterRow = {
+  id: number;
+  inbox_id: number;
+  body: string;
+  request_id: string | null;
+  trace_id: string | null;
+  key_id: string | null;
+  received_at: string;
+  attempts: number;
+  reason: DeadLetterReason;
+  error: string;
+  failed_at: string;
+};
+
+/** Moves an inbox item to `dead_letters` in one transaction; returns the dead letter's id. */
+export function deadLetterInboxItem(
+  item: InboxRow,
+  attempts: number,
+  reason: DeadLetterReason,
+  error: string,
+  failedAt: string = new Date().toISOString()
+): number {
+  const database = getDb();
+  const move = database.transaction(() => {
+    const inserted = database
+      .prepare(
+        `INSERT INTO dead_letters
+           (inbox_id, body, request_id, trace_id, key_id, received_at, attempts, reason, error,
+            failed_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        item.id,
+        item.body,
+        item.request_id,
+        item.trace_id,
+        item.key_id,
+        item.received_at,
+        attempts,
+        reason,
+        error,
+        failedAt
+      );
+    database.prepare("DELETE FROM inbox WHERE id = ?").run(item.id);
+    return Number(inserted.lastInsertRowid);
+  });
+  return move();
+}
+
+/** Dead letters, most recent failure first. */
+export function listDeadLetters(filters: { limit: number; offset: number }): {
+  data: DeadLetterRow[];
+  total: number;
+} {
+  const database = getDb();
+  const data = database
+    .prepare("SELECT * FROM dead_letters ORDER BY failed_at DESC, id DESC LIMIT ? OFFSET ?")
+    .all(filters.limit, filters.offset) as DeadLetterRow[];
+  const { total } = database.prepare("SELECT COUNT(*) AS total FROM dead_letters").get() as {
+    total: number;
+  };
+  return { data, total };
+}
+
+export function getDeadLetter(id: number): DeadLetterRow | null {
+  return (
+    (getDb().prepare("SELECT * FROM dead_letters WHERE id = ?").get(id) as DeadLetterRow | null) ??
+    null
+  );
+}
+
+/**
+ * Puts a dead letter back in the inbox with a fresh attempt count, due
+ * immediately. Returns the new inbox id, or null if there is no such dead letter.
+ */
+export function requeueDeadLetter(id: number, now: string = new Date().toISOString()): number | null {
+  const database = getDb();
+  const requeue = database.transaction((): number | null => {
+    const row = getDeadLetter(id);
+    if (!row) return null;
+    const inserted = database
+      .prepare(
+        `INSERT INTO inbox (body, request_id, trace_id, key_id, received_at, next_attempt_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(row.body, row.request_id, row.trace_id, row.key_id, row.received_at, now);
+    database.prepare("DELETE FROM dead_letters WHERE id = ?").run(id);
+    return Number(inserted.lastInsertRowid);
+  });
+  return requeue();
+}
+
+/** Returns false when there is no such dead letter. */
+export function discardDeadLetter(id: number): boolean {
+  return getDb().prepare("DELETE FROM dead_letters WHERE id = ?").run(id).changes > 0;
+}
+
+export type InboxStats = {
+  pending: number;
+  /** `received_at` of the oldest item still in the inbox. */
+  oldest_received_at: string | null;
+  dead_letters: number;
+};
+
+export function getInboxStats(): InboxStats {
+  const database = getDb();
+  const { pending, oldest } = database
+    .prepare("SELECT COUNT(*) AS pending, MIN(received_at) AS oldest FROM inbox")
+    .get() as { pending: number; oldest: string | null };
+  const { dead } = database.prepare("SELECT COUNT(*) AS dead FROM dead_letters").get() as {
+    dead: number;
+  };
+  return { pending, oldest_received_at: oldest, dead_letters: dead };
+}
+
+export function getDbStats(): { size_bytes: number; message_rows: number } {
+  const database = getDb();
+  const { page_count } = database.prepare("PRAGMA page_count").get() as { page_count: number };
+  const { page_size } = database.prepare("PRAGMA page_size").get() as { page_size: number };
+  const { count } = database.prepare("SELECT COUNT(*) AS count FROM messages").get() as {
+    count: number;
+  };
+  return { size_bytes: page_count * page_size, message_rows: count };
+}
+
 export function pingDb(): boolean {
   const database = getDb();
   try {
@@ -0,0 +1,353 @@
+import { randomBytes } from "node:crypto";
+import type { AppConfig, LogLevel } from "./config.ts";
+import { logJSON } from "./logging_utils.ts";
+
+export const tracingExporterValues = ["log", "otlp", "none"] as const;
+export type TracingExporterKind = (typeof tracingExporterValues)[number];
+
+/** A parsed W3C `traceparent` header (https://www.w3.org/TR/trace-context/). */
+export type TraceParent = {
+  traceId: string;
+  parentSpanId: string;
+  flags: number;
+};
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+export type SpanRecord = {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  name: string;
+  kind: "server" | "internal";
+  /** Epoch milliseconds. */
+  startMs: number;
+  durationMs: number;
+  status: "ok" | "error";
+  error?: string;
+  attributes: SpanAttributes;
+};
+
+export interface SpanExporter {
+  export(span: SpanRecord): void;
+  /** Sends anything buffered; resolves once done or failed. */
+  flush(): Promise<void>;
+}
+
+const SAMPLED_FLAG = 0x01;
+const TRACEPARENT_RE = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const REQUEST_ID_RE = /^[A-Za-z0-9._:@/+=-]{1,128}$/;
+
+function isAllZero(hex: string): boolean {
+  return /^0+$/.test(hex);
+}
+
+/**
+ * Returns null for anything malformed, in which case the request starts a
+ * new trace. Versions above 00 are parsed by their 00 prefix, as the spec
+ * asks; version ff is invalid.
+ */
+export function parseTraceparent(header: string | null | undefined): TraceParent | null {
+  const match = TRACEPARENT_RE.exec(header?.trim().toLowerCase() ?? "");
+  if (!match) return null;
+  const [, version, traceId, parentSpanId, flags, rest] = match;
+  if (version === "ff" || (version === "00" && rest !== undefined)) return null;
+  if (isAllZero(traceId!) || isAllZero(parentSpanId!)) return null;
+  return { traceId: traceId!, parentSpanId: parentSpanId!, flags: parseInt(flags!, 16) };
+}
+
+export function formatTraceparent(traceId: string, spanId: string, flags: number): string {
+  return `00-${traceId}-${spanId}-${flags.toString(16).padStart(2, "0")}`;
+}
+
+export function newTraceId(): string {
+  return randomBytes(16).toString("hex");
+}
+
+export function newSpanId(): string {
+  return randomBytes(8).toString("hex");
+}
+
+/** Keeps a caller's `X-Request-ID` when it is a sane token, otherwise mints one. */
+export function resolveRequestId(header: string | null | undefined): string {
+  const value = header?.trim();
+  return value && REQUEST_ID_RE.test(value) ? value : crypto.randomUUID();
+}
+
+/**
+ * Per-request state: the request id, the trace this request belongs to and
+ * its server span. Child spans time a unit of work inside the request.
+ */
+export class RequestContext {
+  readonly requestId: string;
+  readonly traceId: string;
+  readonly spanId = newSpanId();
+  readonly parentSpanId: string | null;
+  readonly flags: number;
+  private readonly startMs = Date.now();
+  private readonly start = performance.now();
+  private ended = false;
+
+  constructor(
+    private readonly exporter: SpanExporter | null,
+    requestId: string,
+    parent: TraceParent | null
+  ) {
+    this.requestId = requestId;
+    this.traceId = parent?.traceId ?? newTraceId();
+    this.parentSpanId = parent?.parentSpanId ?? null;
+    // A new trace is sampled; a propagated one keeps the caller's decision.
+    this.flags = parent?.flags ?? SAMPLED_FLAG;
+  }
+
+  get sampled(): boolean {
+    return (this.flags & SAMPLED_FLAG) !== 0;
+  }
+
+  /** The `traceparent` to hand downstream: same trace, this request's span. */
+  get traceparent(): string {
+    return formatTraceparent(this.traceId, this.spanId, this.flags);
+  }
+
+  /**
+   * Runs `fn` inside a child span of the request. A thrown error (or
+   * rejected promise) marks the span as failed and is rethrown.
+   */
+  span<T>(name: string, fn: () => T, attributes: SpanAttributes = {}): T {
+    const startMs = Date.now();
+    const start = performance.now();
+    const spanId = newSpanId();
+    const finish = (error?: unknown) =>
+      this.emit({
+        spanId,
+        parentSpanId: this.spanId,
+        name,
+        kind: "internal",
+        startMs,
+        durationMs: performance.now() - start,
+        error,
+        attributes,
+      });
+
+    let result: T;
+    try {
+      result = fn();
+    } catch (err) {
+      finish(err);
+      throw err;
+    }
+    if (result instanceof Promise) {
+      return result.then(
+        (value) => {
+          finish();
+          return value;
+        },
+        (err) => {
+          finish(err);
+          throw err;
+        }
+      ) as T;
+    }
+    finish();
+    return result;
+  }
+
+  /** Ends the server span; later calls are ignored. */
+  end(name: string, attributes: SpanAttributes, failed: boolean): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.emit({
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name,
+      kind: "server",
+      startMs: this.startMs,
+      durationMs: performance.now() - this.start,
+      error: failed ? "request failed" : undefined,
+      attributes,
+    });
+  }
+
+  private emit(span: {
+    spanId: string;
+    parentSpanId: string | null;
+    name: string;
+    kind: SpanRecord["kind"];
+    startMs: number;
+    durationMs: number;
+    error: unknown;
+    attributes: SpanAttributes;
+  }): void {
+    if (!this.exporter || !this.sampled) return;
+    const { error, ...rest } = span;
+    this.exporter.export({
+      ...rest,
+      traceId: this.traceId,
+      status: error === undefined ? "ok" : "error",
+      error:
+        error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/** Writes each span as a `{"event":"span",...}` log line. */
+export class LogSpanExporter implements SpanExporter {
+  constructor(private readonly logLevel: LogLevel) {}
+
+  export(span: SpanRecord): void {
+    logJSON(
+      "INFO",
+      {
+        event: "span",
+        trace_id: span.traceId,
+        span_id: span.spanId,
+        parent_span_id: span.parentSpanId,
+        name: span.name,
+        kind: span.kind,
+        duration_ms: Math.round(span.durationMs * 1000) / 1000,
+        status: span.status,
+        error: span.error,
+        ...(Object.keys(span.attributes).length ? { attributes: span.attributes } : {}),
+      },
+      this.logLevel
+    );
+  }
+
+  async flush(): Promise<void> {}
+}
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { boolValue: boolean };
+
+function otlpValue(value: string | number | boolean): OtlpAnyValue {
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function otlpAttributes(attributes: SpanAttributes) {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: otlpValue(value) }));
+}
+
+function unixNano(ms: number): string {
+  return (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+}
+
+// OTLP enums: SPAN_KIND_INTERNAL = 1, SPAN_KIND_SERVER = 2; STATUS_CODE_OK = 1, STATUS_CODE_ERROR = 2.
+const OTLP_SPAN_KIND = { internal: 1, server: 2 } as const;
+
+/** The OTLP/HTTP JSON body for one batch of spans. */
+export function otlpTracesBody(serviceName: string, spans: SpanRecord[]) {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: otlpAttributes({ "service.name": serviceName }) },
+        scopeSpans: [
+          {
+            scope: { name: "lyftr-webhook" },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              parentSpanId: span.parentSpanId ?? "",
+              name: span.name,
+              kind: OTLP_SPAN_KIND[span.kind],
+              startTimeUnixNano: unixNano(span.startMs),
+              endTimeUnixNano: unixNano(span.startMs + span.durationMs),
+              attributes: otlpAttributes(span.attributes),
+              status: span.status === "ok" ? { code: 1 } : { code: 2, message: span.error ?? "" },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+const OTLP_MAX_BATCH = 512;
+// Spans queued while the collector is unreachable are dropped past this.
+const OTLP_MAX_QUEUE = 8192;
+
+/**
+ * Buffers spans and POSTs them as OTLP/HTTP JSON to `endpoint` (the full
+ * `/v1/traces` URL) every `intervalMs`, or sooner when a batch fills up.
+ * Export failures are logged and the batch is dropped; tracing never fails
+ * a request.
+ */
+export class OtlpSpanExporter implements SpanExporter {
+  private queue: SpanRecord[] = [];
+  private inFlight: Promise<void> | null = null;
+  private readonly timer: ReturnType<typeof setInterval>;
+  private dropped = 0;
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly serviceName: string,
+    private readonly logLevel: LogLevel,
+    intervalMs = 1000
+  ) {
+    this.timer = setInterval(() => void this.flush(), intervalMs);
+    this.timer.unref?.();
+  }
+
+  export(span: SpanRecord): void {
+    if (this.queue.length >= OTLP_MAX_QUEUE) {
+      this.dropped += 1;
+      return;
+    }
+    this.queue.push(span);
+    if (this.queue.length >= OTLP_MAX_BATCH) void this.flush();
+  }
+
+  async flush(): Promise<void> {
+    while (this.inFlight) await this.inFlight;
+    if (this.queue.length === 0) return;
+    const batch = this.queue.splice(0, OTLP_MAX_BATCH);
+    this.inFlight = this.send(batch).finally(() => {
+      this.inFlight = null;
+    });
+    await this.inFlight;
+    if (this.queue.length >= OTLP_MAX_BATCH) await this.flush();
+  }
+
+  close(): void {
+    clearInterval(this.timer);
+  }
+
+  private async send(batch: SpanRecord[]): Promise<void> {
+    try {
+      const res = await fetch(this.endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(otlpTracesBody(this.serviceName, batch)),
+      });
+      await res.body?.cancel();
+      if (!res.ok) throw new Error(`collector returned ${res.status}`);
+    } catch (err) {
+      logJSON(
+        "ERROR",
+        {
+          event: "trace_export_failed",
+          endpoint: this.endpoint,
+          spans: batch.length,
+          dropped_spans: this.dropped,
+          error: err instanceof Error ? err.message : String(err),
+        },
+        this.logLevel
+      );
+    }
+  }
+}
+
+export function createSpanExporter(config: AppConfig): SpanExporter | null {
+  const { exporter, otlpEndpoint, serviceName } = config.tracing;
+  if (exporter === "none") return null;
+  if (exporter === "otlp" && otlpEndpoint) {
+    return new OtlpSpanExporter(otlpEndpoint, serviceName, config.logLevel);
+  }
+  return new LogSpanExporter(config.logLevel);
+}
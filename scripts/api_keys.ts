@@ -0,0 +1,59 @@
+import { parseArgs } from "util";
+import { apiKeyScopeValues, createApiKey, listApiKeys, type ApiKeyScope } from "../app/api_keys.ts";
+import { loadConfig } from "../app/config.ts";
+import { initDb, revokeApiKey } from "../app/storage.ts";
+
+// Usage: bun run scripts/api_keys.ts create <name> --scopes messages:read,stats:read
+//        bun run scripts/api_keys.ts list
+//        bun run scripts/api_keys.ts revoke <id>
+// The database comes from the server's settings (environment and CONFIG_FILE).
+const { values, positionals } = parseArgs({
+  args: process.argv.slice(2),
+  allowPositionals: true,
+  options: { scopes: { type: "string" } },
+});
+const [command, arg] = positionals;
+
+function usage(): never {
+  console.error(
+    `usage: api_keys.ts create <name> --scopes <${apiKeyScopeValues.join("|")},...> | list | revoke <id>`
+  );
+  process.exit(2);
+}
+
+try {
+  const config = loadConfig(Bun.env, []);
+  initDb(config.databaseUrl, { migrate: config.autoMigrate, ...config.sqlite });
+
+  if (command === "create") {
+    const scopes = (values.scopes ?? "").split(",").filter(Boolean);
+    const unknown = scopes.filter((s) => !(apiKeyScopeValues as readonly string[]).includes(s));
+    if (!arg || scopes.length === 0 || unknown.length > 0) {
+      if (unknown.length > 0) console.error(`unknown scopes: ${unknown.join(", ")}`);
+      usage();
+    }
+    const { key, token } = createApiKey(arg, scopes as ApiKeyScope[]);
+    console.log(`created ${key.id} (${key.name}) scopes=${key.scopes.join(",")}`);
+    console.log("Store this key now; it cannot be shown again:");
+    console.log(token);
+  } else if (command === "list") {
+    for (const key of listApiKeys()) {
+      const state = key.revoked_at ? `revoked ${key.revoked_at}` : "active";
+      console.log(
+        `${key.id}  ${key.name}  ${key.scopes.join(",")}  ${state}  last_used=${key.last_used_at ?? "never"}`
+      );
+    }
+  } else if (command === "revoke") {
+    if (!arg) usage();
+    if (!revokeApiKey(arg)) {
+      console.error(`no active key ${arg}`);
+      process.exit(1);
+    }
+    console.log(`revoked ${arg}`);
+  } else {
+    usage();
+  }
+} catch (err) {
+  console.error("api_keys failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+}
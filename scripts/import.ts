@@ -0,0 +1,179 @@
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { loadConfig, type AppConfig } from "../app/config.ts";
+import {
+  clearCheckpoint,
+  detectFormat,
+  readCheckpoint,
+  readImportRecords,
+  writeCheckpoint,
+  type ImportCheckpoint,
+  type ImportCounts,
+  type ImportFormat,
+} from "../app/importer.ts";
+import { setLimits } from "../app/limits.ts";
+import type { WebhookMessage } from "../app/models.ts";
+import { computeHmac } from "../app/security.ts";
+import { initDb, insertMessages } from "../app/storage.ts";
+
+// Usage: bun run scripts/import.ts <file> [--format ndjson|csv] [--mode db|webhook]
+//          [--batch-size N] [--dry-run] [--resume]
+//
+// --mode db (default) writes to the server's database (DATABASE_URL and the
+// SQLITE_* settings, from the environment or CONFIG_FILE) in one transaction
+// per batch. Records are validated against the same limits as the server.
+// --mode webhook POSTs each record to URL (default http://localhost:8000/webhook),
+// signed with WEBHOOK_SECRET (and KEY_ID, if set).
+// Progress is checkpointed next to the file after every batch; pass --resume
+// to continue an interrupted run from there.
+const { values, positionals } = parseArgs({
+  args: process.argv.slice(2),
+  allowPositionals: true,
+  options: {
+    format: { type: "string" },
+    mode: { type: "string", default: "db" },
+    "batch-size": { type: "string", default: "500" },
+    "dry-run": { type: "boolean", default: false },
+    resume: { type: "boolean", default: false },
+  },
+});
+
+const file = positionals[0];
+const format = (values.format ?? (file ? detectFormat(file) : "ndjson")) as ImportFormat;
+const mode = values.mode;
+const batchSize = Number(values["batch-size"]);
+const dryRun = values["dry-run"];
+const resume = values.resume;
+
+type Writer = (batch: WebhookMessage[]) => Promise<ImportCounts>;
+
+function dbWriter(config: AppConfig): Writer {
+  initDb(config.databaseUrl, { migrate: config.autoMigrate, ...config.sqlite });
+  return async (batch) => {
+    const results = insertMessages(batch);
+    const duplicate = results.filter((r) => r.dup).length;
+    const conflict = results.filter((r) => r.conflict).length;
+    return { created: results.length - duplicate - conflict, duplicate, conflict, invalid: 0 };
+  };
+}
+
+function webhookWriter(): Writer {
+  const url = process.env.URL || "http://localhost:8000/webhook";
+  const secret = process.env.WEBHOOK_SECRET || "testsecret";
+  const keyId = process.env.KEY_ID;
+  return async (batch) => {
+    const counts = { created: 0, duplicate: 0, conflict: 0, invalid: 0 };
+    for (const message of batch) {
+      const raw = JSON.stringify(message);
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        "X-Signature": computeHmac(secret, raw),
+      };
+      if (keyId) headers["X-Signature-Key-Id"] = keyId;
+      let res = await fetch(url, { method: "POST", headers, body: raw });
+      // The webhook is rate limited per IP and sender; wait as instructed.
+      while (res.status === 429) {
+        const retryAfterSec = Number(res.headers.get("Retry-After") ?? "1");
+        await res.body?.cancel();
+        await Bun.sleep(Math.max(1, retryAfterSec) * 1000);
+        res = await fetch(url, { method: "POST", headers, body: raw });
+      }
+      const body = (await res.json().catch(() => ({}))) as { result?: string };
+      if (res.status === 422) {
+        counts.invalid += 1;
+        console.error(`${message.message_id}: rejected by server: ${JSON.stringify(body)}`);
+      } else if (res.status === 409 || body.result === "conflict") {
+        counts.conflict += 1;
+        console.error(`${message.message_id}: conflicts with the stored message`);
+      } else if (res.ok) {
+        if (body.result === "duplicate") counts.duplicate += 1;
+        else counts.created += 1;
+      } else {
+        // Anything else is not the record's fault: stop and let --resume retry.
+        throw new Error(`POST ${url} -> ${res.status} ${JSON.stringify(body)}`);
+      }
+    }
+    return counts;
+  };
+}
+
+async function main() {
+  const validArgs =
+    file && ["ndjson", "csv"].includes(format) && ["db", "webhook"].includes(mode) && batchSize > 0;
+  if (!validArgs) {
+    console.error(
+      "usage: bun run scripts/import.ts <file> [--format ndjson|csv] [--mode db|webhook] [--batch-size N] [--dry-run] [--resume]"
+    );
+    process.exit(2);
+  }
+
+  const config = loadConfig(Bun.env, []);
+  setLimits(config.limits);
+
+  const absolute = path.resolve(file);
+  const size = fs.statSync(absolute).size;
+  let checkpoint: ImportCheckpoint = {
+    file: absolute,
+    size,
+    mode,
+    processed: 0,
+    counts: { created: 0, duplicate: 0, conflict: 0, invalid: 0 },
+  };
+  if (resume) {
+    const saved = readCheckpoint(absolute);
+    if (saved && saved.size !== size) {
+      throw new Error(`${file} changed since the checkpoint was written; rerun without --resume`);
+    }
+    if (saved) {
+      // Checkpoints written before conflicts were counted lack the field.
+      checkpoint = { ...saved, counts: { ...saved.counts, conflict: saved.counts.conflict ?? 0 } };
+      console.log(`resuming after record ${saved.processed}`);
+    }
+  }
+
+  const write = dryRun ? null : mode === "webhook" ? webhookWriter() : dbWriter(config);
+  const counts: ImportCounts = { ...checkpoint.counts };
+  let processed = checkpoint.processed;
+  let batch: WebhookMessage[] = [];
+  let batchEnd = processed;
+
+  const flush = async () => {
+    if (write && batch.length > 0) {
+      const result = await write(batch);
+      counts.created += result.created;
+      counts.duplicate += result.duplicate;
+      counts.conflict += result.conflict;
+      counts.invalid += result.invalid;
+    } else if (batch.length > 0) {
+      counts.created += batch.length;
+    }
+    batch = [];
+    processed = batchEnd;
+    if (!dryRun) writeCheckpoint({ ...checkpoint, processed, counts });
+  };
+
+  for await (const record of readImportRecords(absolute, format)) {
+    if (record.index <= checkpoint.processed) continue;
+    batchEnd = record.index;
+    if (record.ok) {
+      batch.push(record.message);
+    } else {
+      counts.invalid += 1;
+      console.error(`record ${record.index}: ${record.error}`);
+    }
+    if (batch.length >= batchSize) await flush();
+  }
+  await flush();
+  if (!dryRun) clearCheckpoint(absolute);
+
+  const createdLabel = dryRun ? "valid" : "created";
+  console.log(
+    `${dryRun ? "dry run: " : ""}${processed} records, ${createdLabel} ${counts.created}, duplicate ${counts.duplicate}, conflict ${counts.conflict}, invalid ${counts.invalid}`
+  );
+}
+
+main().catch((err) => {
+  console.error("import failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,37 @@
+import { loadConfig } from "../app/config.ts";
+import { appliedMigrations, latestVersion, runMigrations } from "../app/migrate.ts";
+import { openDb, openDbReadOnly } from "../app/storage.ts";
+
+// Usage: bun run scripts/migrate.ts [--dry-run] [--status]
+// Reads DATABASE_URL and the SQLITE_* settings like the server does, from
+// the environment and CONFIG_FILE.
+const dryRun = process.argv.includes("--dry-run");
+const statusOnly = process.argv.includes("--status");
+
+try {
+  const config = loadConfig(Bun.env, []);
+  // Inspecting must not create the file or switch its journal mode.
+  const db =
+    dryRun || statusOnly
+      ? openDbReadOnly(config.databaseUrl)
+      : openDb(config.databaseUrl, config.sqlite);
+
+  if (statusOnly) {
+    for (const m of appliedMigrations(db)) {
+      console.log(`applied  ${m.version}_${m.name}  ${m.applied_at}`);
+    }
+    console.log(`code schema version: ${latestVersion()}`);
+  }
+
+  const migrations = runMigrations(db, { dryRun: dryRun || statusOnly });
+  if (migrations.length === 0) {
+    console.log("No pending migrations.");
+  }
+  for (const m of migrations) {
+    console.log(`${dryRun || statusOnly ? "pending" : "applied"}  ${m.version}_${m.name}`);
+  }
+  db.close();
+} catch (err) {
+  console.error("migration failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+}
@@ -2,17 +2,27 @@ import crypto from "crypto";
 
 const secret = process.env.WEBHOOK_SECRET || "testsecret";
 const url = process.env.URL || "http://localhost:8000/webhook";
+// Set SIGN_WITH_TIMESTAMP=1 to use the replay-protected signing mode.
+const withTimestamp = Boolean(process.env.SIGN_WITH_TIMESTAMP);
+const keyId = process.env.KEY_ID;
+// Read endpoints need an API key with messages:read, stats:read and metrics:read.
+const apiKey = process.env.API_KEY;
 
 async function send(body: object) {
   const raw = JSON.stringify(body);
-  const h = crypto.createHmac("sha256", secret).update(raw).digest("hex");
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (keyId) headers["X-Signature-Key-Id"] = keyId;
+  let signed = raw;
+  if (withTimestamp) {
+    const ts = Math.floor(Date.now() / 1000).toString();
+    headers["X-Signature-Timestamp"] = ts;
+    signed = `${ts}.${raw}`;
+  }
+  headers["X-Signature"] = crypto.createHmac("sha256", secret).update(signed).digest("hex");
 
   const res = await fetch(url, {
     method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "X-Signature": h,
-    },
+    headers,
     body: raw,
   });
 
@@ -21,7 +31,9 @@ async function send(body: object) {
 }
 
 async function get(path: string) {
-  const res = await fetch(`http://localhost:8000${path}`);
+  const res = await fetch(`http://localhost:8000${path}`, {
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+  });
   const text = await res.text();
   console.log(`GET ${path} -> ${res.status}\n${text}`);
 }
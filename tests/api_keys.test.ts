@@ -0,0 +1,37 @@
+import { expect, test } from "bun:test";
+import { authenticateApiKey, createApiKey } from "../app/api_keys.ts";
+import { initDb, revokeApiKey } from "../app/storage.ts";
+
+initDb("sqlite::memory:");
+
+test("a created key authenticates for its scopes only", () => {
+  const { key, token } = createApiKey("dashboard", ["stats:read"]);
+  expect(token.startsWith(`lk_${key.id}_`)).toBeTrue();
+
+  const ok = authenticateApiKey(`Bearer ${token}`, "stats:read");
+  expect(ok.ok && ok.key.id).toBe(key.id);
+  expect(authenticateApiKey(`Bearer ${token}`, "messages:read")).toEqual({
+    ok: false,
+    reason: "insufficient_scope",
+    keyId: key.id,
+  });
+});
+
+test("admin implies every scope", () => {
+  const { token } = createApiKey("ops", ["admin"]);
+  expect(authenticateApiKey(`Bearer ${token}`, "metrics:read").ok).toBeTrue();
+});
+
+test("wrong secrets, missing headers and revoked keys are rejected", () => {
+  const { key, token } = createApiKey("temp", ["messages:read"]);
+  const tampered = token.slice(0, -1) + (token.endsWith("A") ? "B" : "A");
+  expect(authenticateApiKey(`Bearer ${tampered}`, "messages:read")).toMatchObject({ reason: "invalid" });
+  expect(authenticateApiKey(null, "messages:read")).toMatchObject({ reason: "missing" });
+  expect(authenticateApiKey(token, "messages:read")).toMatchObject({ reason: "missing" });
+
+  expect(revokeApiKey(key.id)).toBeTrue();
+  expect(authenticateApiKey(`Bearer ${token}`, "messages:read")).toMatchObject({
+    reason: "revoked",
+    keyId: key.id,
+  });
+});
@@ -0,0 +1,111 @@
+import { afterAll, expect, test } from "bun:test";
+import { createHmac } from "node:crypto";
+import type http from "http";
+import { getDb } from "../app/storage.ts";
+
+// main.ts reads its settings on import.
+const testEnv: Record<string, string> = {
+  DATABASE_URL: "sqlite::memory:",
+  WEBHOOK_SECRET: "testsecret",
+  TRACING_EXPORTER: "none",
+  LOG_LEVEL: "ERROR",
+};
+const savedEnv = Object.fromEntries(Object.keys(testEnv).map((name) => [name, Bun.env[name]]));
+Object.assign(Bun.env, testEnv);
+const { app } = await import("../app/main.ts");
+for (const [name, value] of Object.entries(savedEnv)) {
+  if (value === undefined) delete Bun.env[name];
+  else Bun.env[name] = value;
+}
+
+const server: http.Server = app.listen(0, "127.0.0.1");
+await new Promise<void>((resolve) => server.once("listening", resolve));
+const url = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+afterAll(() => {
+  server.close();
+});
+
+function sendBatch(body: unknown, secret = "testsecret"): Promise<Response> {
+  const raw = JSON.stringify(body);
+  return fetch(`${url}/webhook/batch`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Signature": createHmac("sha256", secret).update(raw).digest("hex"),
+    },
+    body: raw,
+  });
+}
+
+const message = (id: string, from: string) => ({
+  message_id: id,
+  from,
+  to: "+14155550100",
+  ts: "2024-05-01T00:00:00Z",
+  text: "hello",
+});
+
+const storedIds = (prefix: string) =>
+  (getDb()
+    .prepare("SELECT message_id FROM messages WHERE message_id LIKE ? ORDER BY message_id")
+    .all(`${prefix}%`) as { message_id: string }[]).map((r) => r.message_id);
+
+test("a batch reports one result per item and stores the valid ones", async () => {
+  const seeded = await sendBatch([
+    message("b-dup", "+14155550130"),
+    message("b-conflict", "+14155550130"),
+  ]);
+  expect(seeded.status).toBe(200);
+
+  const res = await sendBatch([
+      message("b-1", "+14155550131"),
+      { message_id: "b-bad", from: "+14155550132", to: "+14155550100" },
+      message("b-dup", "+14155550130"),
+      { ...message("b-conflict", "+14155550130"), text: "edited" },
+      { to: "+14155550100" },
+  ]);
+  expect(res.status).toBe(200);
+  const body = (await res.json()) as { results: Record<string, unknown>[] };
+  expect(body).toMatchObject({ created: 1, duplicate: 1, conflict: 1, validation_error: 2 });
+  expect(body.results).toMatchObject([
+    { index: 0, message_id: "b-1", status: "created" },
+    { index: 1, message_id: "b-bad", status: "validation_error" },
+    { index: 2, message_id: "b-dup", status: "duplicate" },
+    { index: 3, message_id: "b-conflict", status: "conflict" },
+    { index: 4, status: "validation_error" },
+  ]);
+  expect(body.results.filter((r) => "errors" in r).map((r) => r.index)).toEqual([1, 4]);
+  expect(body.results[1]!.errors).toMatchObject({ ts: { _errors: [expect.any(String)] } });
+  expect(storedIds("b-")).toEqual(["b-1", "b-conflict", "b-dup"]);
+});
+
+test("a storage failure rolls back the whole batch", async () => {
+  getDb().run(`CREATE TEMP TRIGGER fail_batch BEFORE INSERT ON messages
+               WHEN NEW.message_id = 'rb-3'
+               BEGIN SELECT RAISE(ABORT, 'disk full'); END`);
+  try {
+    const res = await sendBatch([
+      message("rb-1", "+14155550140"),
+      message("rb-2", "+14155550141"),
+      message("rb-3", "+14155550142"),
+    ]);
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ detail: "disk full" });
+    expect(storedIds("rb-")).toEqual([]);
+  } finally {
+    getDb().run("DROP TRIGGER fail_batch");
+  }
+});
+
+test("a batch over the item limit or with a bad signature is rejected whole", async () => {
+  const tooMany = await sendBatch(Array.from({ length: 5001 }, () => ({})));
+  expect(tooMany.status).toBe(413);
+  expect(await tooMany.json()).toEqual({ detail: "at most 5000 items per batch" });
+
+  const batch = [message("lb-1", "+14155550150"), message("lb-2", "+14155550151")];
+  const forged = await sendBatch(batch, "wrongsecret");
+  expect(forged.status).toBe(401);
+  expect(await forged.json()).toEqual({ detail: "invalid signature" });
+  expect((await sendBatch({ items: batch })).status).toBe(422);
+  expect(storedIds("lb-")).toEqual([]);
+});
@@ -0,0 +1,151 @@
+import { afterEach, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ConfigError, loadConfig, loadSettings, redactSettings } from "../app/config.ts";
+import { DEFAULT_LIMITS, setLimits } from "../app/limits.ts";
+import { webhookMessageSchema } from "../app/models.ts";
+import { parseMessagesQuery } from "../app/queries.ts";
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "lyftr-config-"));
+
+afterEach(() => setLimits({ ...DEFAULT_LIMITS }));
+
+function writeFile(name: string, text: string): string {
+  const file = path.join(tmp, name);
+  fs.writeFileSync(file, text);
+  return file;
+}
+
+test("defaults apply when nothing is set", () => {
+  const config = loadConfig({}, []);
+  expect(config.host).toBe("0.0.0.0");
+  expect(config.port).toBe(8000);
+  expect(config.logLevel).toBe("INFO");
+  expect(config.bodyLimits).toEqual({ webhookBytes: 102400, batchBytes: 20 * 1024 * 1024 });
+  expect(config.limits).toEqual(DEFAULT_LIMITS);
+  expect(config.webhookIpRateLimit).toEqual({ ratePerSec: 20, burst: 100 });
+  expect(config.tracing.exporter).toBe("log");
+});
+
+test("environment values are coerced; blank ones count as unset", () => {
+  const config = loadConfig(
+    {
+      PORT: "9000",
+      HOST: "127.0.0.1",
+      LOG_LEVEL: "error",
+      WEBHOOK_BODY_LIMIT: "256kb",
+      PAGE_SIZE_MAX: "500",
+      DB_AUTO_MIGRATE: "FALSE",
+      RETENTION_DAYS: "  ",
+      WEBHOOK_RATE_LIMIT_FROM_PER_SEC: "0",
+    },
+    []
+  );
+  expect(config.port).toBe(9000);
+  expect(config.host).toBe("127.0.0.1");
+  expect(config.logLevel).toBe("ERROR");
+  expect(config.bodyLimits.webhookBytes).toBe(256 * 1024);
+  expect(config.limits.pageSizeMax).toBe(500);
+  expect(config.autoMigrate).toBeFalse();
+  expect(config.retentionDays).toBeNull();
+  expect(config.webhookFromRateLimit).toBeNull();
+});
+
+test("invalid settings fail with every problem named", () => {
+  let error: unknown;
+  try {
+    loadSettings({ PORT: "http", LOG_LEVEL: "VERBOSE", WEBHOOK_BODY_LIMIT: "lots" }, []);
+  } catch (err) {
+    error = err;
+  }
+  expect(error).toBeInstanceOf(ConfigError);
+  const message = (error as Error).message;
+  for (const name of ["PORT", "LOG_LEVEL", "WEBHOOK_BODY_LIMIT"]) {
+    expect(message).toContain(`at ${name}`);
+  }
+});
+
+test("settings that depend on each other are checked together", () => {
+  expect(() => loadSettings({ PAGE_SIZE_DEFAULT: "200" }, [])).toThrow(
+    "must not exceed PAGE_SIZE_MAX"
+  );
+  expect(() => loadSettings({ TRACING_EXPORTER: "otlp" }, [])).toThrow("otlp needs");
+  const config = loadConfig(
+    { TRACING_EXPORTER: "otlp", OTEL_EXPORTER_OTLP_ENDPOINT: "http://collector:4318/" },
+    []
+  );
+  expect(config.tracing.otlpEndpoint).toBe("http://collector:4318/v1/traces");
+});
+
+test("a TOML config file is read and the environment overrides it", () => {
+  const file = writeFile(
+    "lyftr.toml",
+    `port = 8081
+log_level = "DEBUG"
+TEXT_MAX_LENGTH = 1000
+
+[[webhook_secrets]]
+id = "2024-06"
+secret = "s3cret"
+`
+  );
+  const config = loadConfig({ PORT: "8082" }, ["--config", file]);
+  expect(config.port).toBe(8082);
+  expect(config.logLevel).toBe("DEBUG");
+  expect(config.limits.textMaxLength).toBe(1000);
+  expect(config.webhookKeys).toEqual([
+    { id: "2024-06", secret: "s3cret", notBefore: null, expiresAt: null },
+  ]);
+});
+
+test("a JSON config file is found through CONFIG_FILE and unknown keys are rejected", () => {
+  const good = writeFile(
+    "lyftr.json",
+    JSON.stringify({ HOST: "::1", WEBHOOK_BATCH_MAX_ITEMS: 10 })
+  );
+  expect(loadConfig({ CONFIG_FILE: good }, []).batchMaxItems).toBe(10);
+
+  const bad = writeFile("typo.json", JSON.stringify({ PROT: 1 }));
+  expect(() => loadSettings({ CONFIG_FILE: bad }, [])).toThrow("unknown settings");
+  expect(() => loadSettings({}, ["--config", path.join(tmp, "missing.toml")])).toThrow(
+    ConfigError
+  );
+});
+
+test("redactSettings hides secrets and shows unset settings as null", () => {
+  const settings = loadSettings(
+    {
+      WEBHOOK_SECRET: "plain",
+      WEBHOOK_SECRETS: '[{"id":"k1","secret":"hidden"}]',
+      TWILIO_AUTH_TOKEN: "tok",
+    },
+    []
+  );
+  const printed = redactSettings(settings);
+  expect(printed.WEBHOOK_SECRET).toBe("[redacted]");
+  expect(printed.TWILIO_AUTH_TOKEN).toBe("[redacted]");
+  expect(printed.META_APP_SECRET).toBeNull();
+  expect(printed.WEBHOOK_SECRETS).toEqual([{ id: "k1", secret: "[redacted]" }]);
+  expect(JSON.stringify(printed)).not.toContain("hidden");
+});
+
+test("configured limits apply to query and payload validation", () => {
+  const url = (query: string) => new URL(`http://localhost/messages?${query}`);
+  expect(parseMessagesQuery(url("limit=150")).ok).toBeFalse();
+
+  setLimits({ pageSizeMax: 200, pageSizeDefault: 20, textMaxLength: 5 });
+  const parsed = parseMessagesQuery(url("limit=150"));
+  expect(parsed.ok && parsed.value.limit).toBe(150);
+  const defaulted = parseMessagesQuery(url(""));
+  expect(defaulted.ok && defaulted.value.limit).toBe(20);
+
+  const message = {
+    message_id: "m1",
+    from: "+15550000001",
+    to: "+15550000002",
+    ts: "2024-01-01T00:00:00Z",
+  };
+  expect(webhookMessageSchema.safeParse({ ...message, text: "short" }).success).toBeTrue();
+  expect(webhookMessageSchema.safeParse({ ...message, text: "too long" }).success).toBeFalse();
+});
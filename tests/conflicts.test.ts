@@ -0,0 +1,85 @@
+import { expect, test } from "bun:test";
+import type { WebhookMessage } from "../app/models.ts";
+import { getDb, initDb, insertMessage, insertMessages } from "../app/storage.ts";
+
+initDb("sqlite::memory:");
+
+const base: WebhookMessage = {
+  message_id: "c-1",
+  from: "+15550000001",
+  to: "+15550000002",
+  ts: "2024-05-01T00:00:00Z",
+  type: "text",
+  text: "hello",
+};
+
+type ConflictRow = {
+  message_id: string;
+  existing_payload: string;
+  incoming_payload: string;
+  request_id: string | null;
+  occurrences: number;
+};
+
+const conflicts = (messageId: string) =>
+  getDb()
+    .prepare("SELECT * FROM message_conflicts WHERE message_id = ? ORDER BY id")
+    .all(messageId) as ConflictRow[];
+
+const storedText = (messageId: string) =>
+  (getDb().prepare("SELECT text FROM messages WHERE message_id = ?").get(messageId) as {
+    text: string | null;
+  }).text;
+
+test("replays are duplicates; reusing a message_id with other content is a conflict", () => {
+  expect(insertMessage(base)).toEqual({ created: true, dup: false, conflict: false });
+  expect(insertMessage({ ...base })).toEqual({ created: false, dup: true, conflict: false });
+
+  const changed = { ...base, text: "edited" };
+  expect(insertMessage(changed, "req-a")).toEqual({ created: false, dup: false, conflict: true });
+  expect(insertMessage(changed, "req-b").conflict).toBeTrue();
+  expect(insertMessage({ ...base, to: "+15550000003" }).conflict).toBeTrue();
+
+  expect(storedText("c-1")).toBe("hello");
+  const [first, second] = conflicts("c-1");
+  expect(conflicts("c-1")).toHaveLength(2);
+  expect(first).toMatchObject({ request_id: "req-a", occurrences: 2 });
+  expect(JSON.parse(first!.existing_payload)).toEqual(base);
+  expect(JSON.parse(first!.incoming_payload)).toEqual(changed);
+  expect(JSON.parse(second!.incoming_payload).to).toBe("+15550000003");
+});
+
+test("messages stored without a hash are compared by their columns", () => {
+  const media: WebhookMessage = {
+    message_id: "c-2",
+    from: "+15550000001",
+    to: "+15550000002",
+    ts: "2024-05-01T00:00:00Z",
+    type: "image",
+    media: { id: "media-1", mime_type: "image/jpeg", caption: "a cat" },
+  };
+  insertMessage(media);
+  getDb().run("UPDATE messages SET content_hash = NULL WHERE message_id = 'c-2'");
+
+  expect(insertMessage({ ...media }).dup).toBeTrue();
+  const recaptioned = { ...media, media: { ...media.media, caption: "a dog" } };
+  expect(insertMessage(recaptioned).conflict).toBeTrue();
+  expect(JSON.parse(conflicts("c-2")[0]!.existing_payload)).toEqual(media);
+});
+
+test("insertMessages reports conflicts per message", () => {
+  const results = insertMessages(
+    [
+      { ...base, message_id: "c-3" },
+      { ...base, message_id: "c-3" },
+      { ...base, message_id: "c-3", ts: "2024-05-02T00:00:00Z" },
+    ],
+    "req-batch"
+  );
+  expect(results.map((r) => [r.created, r.dup, r.conflict])).toEqual([
+    [true, false, false],
+    [false, true, false],
+    [false, false, true],
+  ]);
+  expect(conflicts("c-3")[0]!.request_id).toBe("req-batch");
+});
@@ -0,0 +1,126 @@
+import { afterAll, expect, test } from "bun:test";
+import type http from "http";
+import { createApiKey } from "../app/api_keys.ts";
+import type { WebhookMessage } from "../app/models.ts";
+import { initDb, insertMessage, listConversations } from "../app/storage.ts";
+
+// Same settings as tests/openapi.test.ts: main.ts is imported once per run.
+const testEnv: Record<string, string> = {
+  DATABASE_URL: "sqlite::memory:",
+  WEBHOOK_SECRET: "testsecret",
+  TRACING_EXPORTER: "none",
+  LOG_LEVEL: "ERROR",
+};
+const savedEnv = Object.fromEntries(Object.keys(testEnv).map((name) => [name, Bun.env[name]]));
+Object.assign(Bun.env, testEnv);
+const { app } = await import("../app/main.ts");
+for (const [name, value] of Object.entries(savedEnv)) {
+  if (value === undefined) delete Bun.env[name];
+  else Bun.env[name] = value;
+}
+initDb("sqlite::memory:");
+
+const server: http.Server = app.listen(0, "127.0.0.1");
+await new Promise<void>((resolve) => server.once("listening", resolve));
+const url = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+afterAll(() => {
+  server.close();
+});
+
+const token = createApiKey("conversation-reader", ["messages:read"]).token;
+const get = (path: string) =>
+  fetch(`${url}${path}`, { headers: { Authorization: `Bearer ${token}` } }).then(async (res) => ({
+    status: res.status,
+    body: (await res.json()) as any,
+  }));
+
+const AGENT = "+14155550300";
+const CUSTOMER = "+14155550301";
+const OTHER = "+14155550299";
+const long = "x".repeat(130);
+
+const message = (id: string, from: string, to: string, ts: string, text: string) =>
+  ({ message_id: id, from, to, ts, type: "text", text }) satisfies WebhookMessage;
+
+// Agent <-> customer in both directions, plus an older thread with OTHER.
+insertMessage(message("cv-1", CUSTOMER, AGENT, "2024-05-01T10:00:00Z", "hi"));
+insertMessage(message("cv-2", AGENT, CUSTOMER, "2024-05-01T10:01:00Z", "hello"));
+insertMessage(message("cv-3", CUSTOMER, AGENT, "2024-05-01T10:02:00Z", "question"));
+insertMessage(message("cv-4", AGENT, CUSTOMER, "2024-05-01T10:02:00Z", "answer"));
+insertMessage(message("cv-5", CUSTOMER, AGENT, "2024-05-01T10:03:00Z", long));
+insertMessage({
+  message_id: "cv-6",
+  from: AGENT,
+  to: OTHER,
+  ts: "2024-04-30T09:00:00Z",
+  type: "image",
+  media: { id: "media-6", mime_type: "image/png", caption: "receipt" },
+});
+
+test("listConversations groups both directions under the smaller number first", () => {
+  const { data, total } = listConversations({ limit: 10, offset: 0 });
+  expect(total).toBe(2);
+  expect(data).toEqual([
+    {
+      participants: [AGENT, CUSTOMER],
+      message_count: 5,
+      first_message_ts: "2024-05-01T10:00:00Z",
+      last_message_ts: "2024-05-01T10:03:00Z",
+      last_message: {
+        message_id: "cv-5",
+        from: CUSTOMER,
+        type: "text",
+        preview: `${"x".repeat(120)}…`,
+      },
+    },
+    {
+      participants: [OTHER, AGENT],
+      message_count: 1,
+      first_message_ts: "2024-04-30T09:00:00Z",
+      last_message_ts: "2024-04-30T09:00:00Z",
+      last_message: { message_id: "cv-6", from: AGENT, type: "image", preview: "receipt" },
+    },
+  ]);
+
+  expect(listConversations({ limit: 10, offset: 0, participant: OTHER }).data).toHaveLength(1);
+  const second = listConversations({ limit: 1, offset: 1 });
+  expect(second.total).toBe(2);
+  expect(second.data.map((c) => c.participants)).toEqual([[OTHER, AGENT]]);
+});
+
+test("GET /conversations lists threads and filters by participant", async () => {
+  const all = await get("/conversations?limit=1");
+  expect(all.status).toBe(200);
+  expect(all.body).toMatchObject({ total: 2, limit: 1, offset: 0 });
+  expect(all.body.data[0].participants).toEqual([AGENT, CUSTOMER]);
+  expect(all.body.data[0].last_message.preview).toHaveLength(121);
+
+  const filtered = await get(`/conversations?participant=${encodeURIComponent(CUSTOMER)}`);
+  expect(filtered.body.data.map((c: any) => c.participants)).toEqual([[AGENT, CUSTOMER]]);
+  expect((await get("/conversations?participant=abc")).status).toBe(422);
+});
+
+test("conversation messages page through both directions in either pair order", async () => {
+  const thread = (a: string, b: string) =>
+    `/conversations/${encodeURIComponent(a)}/${encodeURIComponent(b)}/messages`;
+  const path = thread(CUSTOMER, AGENT);
+  const first = await get(`${path}?limit=2`);
+  expect(first.status).toBe(200);
+  expect(first.body.participants).toEqual([CUSTOMER, AGENT]);
+  expect(first.body.total).toBe(5);
+  expect(first.body.data.map((m: any) => m.message_id)).toEqual(["cv-1", "cv-2"]);
+  expect(first.body.prev_cursor).toBeNull();
+
+  const second = await get(`${path}?limit=2&cursor=${first.body.next_cursor}`);
+  expect(second.body.data.map((m: any) => m.message_id)).toEqual(["cv-3", "cv-4"]);
+  const third = await get(`${path}?limit=2&cursor=${second.body.next_cursor}`);
+  expect(third.body.data.map((m: any) => m.message_id)).toEqual(["cv-5"]);
+  expect(third.body.next_cursor).toBeNull();
+
+  const back = await get(`${path}?limit=2&cursor=${third.body.prev_cursor}`);
+  expect(back.body.data.map((m: any) => m.message_id)).toEqual(["cv-3", "cv-4"]);
+
+  const newest = await get(`${thread(AGENT, CUSTOMER)}?order=desc&limit=3&offset=1`);
+  expect(newest.body.data.map((m: any) => m.message_id)).toEqual(["cv-4", "cv-3", "cv-2"]);
+  expect((await get(thread(AGENT, "123"))).status).toBe(422);
+});
@@ -0,0 +1,153 @@
+import { afterAll, expect, test } from "bun:test";
+import { createHash } from "node:crypto";
+import http from "node:http";
+import { createApiKey } from "../app/api_keys.ts";
+import { csvField, exportHeader, exportLine } from "../app/export.ts";
+import type { StoredMessage, WebhookMessage } from "../app/models.ts";
+import { initDb, insertMessages } from "../app/storage.ts";
+
+// Same settings as tests/openapi.test.ts: main.ts is imported once per run.
+const testEnv: Record<string, string> = {
+  DATABASE_URL: "sqlite::memory:",
+  WEBHOOK_SECRET: "testsecret",
+  TRACING_EXPORTER: "none",
+  LOG_LEVEL: "ERROR",
+};
+const savedEnv = Object.fromEntries(Object.keys(testEnv).map((name) => [name, Bun.env[name]]));
+Object.assign(Bun.env, testEnv);
+const { app } = await import("../app/main.ts");
+for (const [name, value] of Object.entries(savedEnv)) {
+  if (value === undefined) delete Bun.env[name];
+  else Bun.env[name] = value;
+}
+initDb("sqlite::memory:");
+
+const server: http.Server = app.listen(0, "127.0.0.1");
+await new Promise<void>((resolve) => server.once("listening", resolve));
+const { port } = server.address() as { port: number };
+afterAll(() => {
+  server.close();
+});
+
+const token = createApiKey("export-reader", ["messages:read"]).token;
+
+type RawResponse = {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  trailers: NodeJS.Dict<string>;
+  body: string;
+};
+
+// fetch() does not expose HTTP trailers, so read the response with node:http.
+function getExport(query: string): Promise<RawResponse> {
+  return new Promise((resolve, reject) => {
+    const options = {
+      host: "127.0.0.1",
+      port,
+      path: `/messages/export?${query}`,
+      headers: { Authorization: `Bearer ${token}` },
+    };
+    const req = http.get(options, (res) => {
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk: Buffer) => chunks.push(chunk));
+      res.on("end", () =>
+        resolve({
+          status: res.statusCode!,
+          headers: res.headers,
+          trailers: res.trailers,
+          body: Buffer.concat(chunks).toString("utf8"),
+        })
+      );
+      res.on("error", reject);
+    });
+    req.on("error", reject);
+  });
+}
+
+const message: StoredMessage = {
+  message_id: "m1",
+  from: "+1555",
+  to: "+1666",
+  ts: "2024-01-01T00:00:00Z",
+  type: "image",
+  text: null,
+  media: { id: "media-1", mime_type: "image/jpeg", caption: "a, b" },
+  created_at: "2024-01-01T00:00:01.000Z",
+  country: null,
+  calling_code: null,
+  status: "read",
+  statuses: [],
+};
+
+test("csvField quotes delimiters, quotes and line breaks", () => {
+  expect(csvField("plain")).toBe("plain");
+  expect(csvField('say "hi", then\nleave')).toBe('"say ""hi"", then\nleave"');
+  expect(csvField(null)).toBe("");
+});
+
+test("CSV rows carry typed content as a JSON column", () => {
+  expect(exportHeader("csv")).toBe("message_id,from,to,ts,type,text,content,status,created_at\r\n");
+  expect(exportLine("csv", message)).toBe(
+    'm1,+1555,+1666,2024-01-01T00:00:00Z,image,,"{""id"":""media-1"",""mime_type"":""image/jpeg"",""caption"":""a, b""}",read,2024-01-01T00:00:01.000Z\r\n'
+  );
+});
+
+test("NDJSON writes one message object per line", () => {
+  expect(exportHeader("ndjson")).toBe("");
+  const line = exportLine("ndjson", message);
+  expect(line.endsWith("\n")).toBeTrue();
+  expect(JSON.parse(line)).toEqual(message);
+});
+
+test("the export route streams every row with trailers that match the body", async () => {
+  const from = "+14155550180";
+  const rows: WebhookMessage[] = Array.from({ length: 1201 }, (_, i) => ({
+    message_id: `exp-${String(i).padStart(4, "0")}`,
+    from,
+    to: "+14155550100",
+    ts: new Date(Date.UTC(2024, 4, 1) + i * 1000).toISOString(),
+    type: "text",
+    text: i === 0 ? 'say "hi", then\nleave' : `row ${i}`,
+  }));
+  insertMessages(rows);
+
+  // More rows than one storage batch (500), so the body is written in pieces.
+  const csv = await getExport(`format=csv&from=%2B14155550180`);
+  expect(csv.status).toBe(200);
+  expect(csv.headers["transfer-encoding"]).toBe("chunked");
+  expect(csv.headers["content-length"]).toBeUndefined();
+  expect(csv.headers["content-type"]).toStartWith("text/csv");
+  expect(csv.trailers["x-export-row-count"]).toBe("1201");
+  expect(csv.trailers["x-export-sha256"]).toBe(createHash("sha256").update(csv.body).digest("hex"));
+
+  const lines = csv.body.split("\r\n");
+  expect(lines[0]).toBe("message_id,from,to,ts,type,text,content,status,created_at");
+  expect(lines[1]).toStartWith(
+    'exp-0000,+14155550180,+14155550100,2024-05-01T00:00:00.000Z,text,"say ""hi"", then\nleave",,,'
+  );
+  expect(lines[1201]).toStartWith("exp-1200,");
+  expect(lines[1202]).toBe("");
+
+  const ndjson = await getExport(`format=ndjson&from=%2B14155550180&order=desc`);
+  expect(ndjson.status).toBe(200);
+  const records = ndjson.body.trimEnd().split("\n").map((line) => JSON.parse(line));
+  expect(records).toHaveLength(1201);
+  expect(records[0].message_id).toBe("exp-1200");
+  expect(records[1200].text).toBe('say "hi", then\nleave');
+  expect(ndjson.trailers["x-export-row-count"]).toBe("1201");
+  expect(ndjson.trailers["x-export-sha256"]).toBe(
+    createHash("sha256").update(ndjson.body).digest("hex")
+  );
+});
+
+test("the export route rejects paging parameters", async () => {
+  for (const param of ["limit=10", "offset=5", "cursor=abc", "sort=time", "include_total=false"]) {
+    const response = await getExport(`format=ndjson&${param}`);
+    expect(response.status).toBe(422);
+    const name = param.split("=")[0]!;
+    expect(JSON.parse(response.body)).toEqual({
+      _errors: [],
+      [name]: { _errors: ["not supported on export"] },
+    });
+  }
+});
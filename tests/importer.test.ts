@@ -0,0 +1,147 @@
+import { afterAll, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { exportHeader, exportLine } from "../app/export.ts";
+import { CsvReader, readImportRecords, recordFromCsv } from "../app/importer.ts";
+import { webhookMessageSchema, type StoredMessage } from "../app/models.ts";
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "lyftr-importer-"));
+afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+test("CsvReader handles quoted fields split across chunks", () => {
+  const reader = new CsvReader();
+  const rows = [
+    ...reader.push('a,b\r\n"x, ""y"""'),
+    ...reader.push(',"line\nbreak"\r\n\r\nlast,'),
+    ...reader.end(),
+  ];
+  expect(rows).toEqual([
+    ["a", "b"],
+    ['x, "y"', "line\nbreak"],
+    ["last", ""],
+  ]);
+});
+
+test("rows written by the CSV export import back to the same message", () => {
+  const stored: StoredMessage = {
+    message_id: "m1",
+    from: "+15550001111",
+    to: "+15550002222",
+    ts: "2024-01-01T00:00:00Z",
+    type: "location",
+    text: null,
+    location: { latitude: 52.5, longitude: 13.4, name: 'Café "Mitte", Berlin' },
+    created_at: "2024-01-01T00:00:01.000Z",
+    country: "US",
+    calling_code: "1",
+    status: "read",
+    statuses: [],
+  };
+  const reader = new CsvReader();
+  const [header, row] = [...reader.push(exportHeader("csv") + exportLine("csv", stored)), ...reader.end()];
+  const parsed = webhookMessageSchema.parse(recordFromCsv(header!, row!));
+  expect(parsed).toEqual({
+    message_id: "m1",
+    from: "+15550001111",
+    to: "+15550002222",
+    ts: "2024-01-01T00:00:00Z",
+    type: "location",
+    location: stored.location!,
+  });
+});
+
+test("lines written by the NDJSON export import back, null fields included", async () => {
+  const stored: StoredMessage[] = [
+    {
+      message_id: "n1",
+      from: "+15550001111",
+      to: "+15550002222",
+      ts: "2024-01-01T00:00:00Z",
+      type: "image",
+      text: null,
+      media: { id: "media-1", mime_type: "image/jpeg", caption: "a cat" },
+      created_at: "2024-01-01T00:00:01.000Z",
+      country: "US",
+      calling_code: "1",
+      status: null,
+      statuses: [],
+    },
+    {
+      message_id: "n2",
+      from: "+15550002222",
+      to: "+15550001111",
+      ts: "2024-01-01T00:01:00Z",
+      type: "text",
+      text: "hello",
+      created_at: "2024-01-01T00:01:01.000Z",
+      country: "US",
+      calling_code: "1",
+      status: "read",
+      statuses: [
+        {
+          status: "read",
+          ts: "2024-01-01T00:02:00Z",
+          recipient: null,
+          error_code: null,
+          error_message: null,
+        },
+      ],
+    },
+    {
+      message_id: "n3",
+      from: "+15550001111",
+      to: "+15550002222",
+      ts: "2024-01-01T00:02:00Z",
+      type: "text",
+      text: null,
+      created_at: "2024-01-01T00:02:01.000Z",
+      country: "US",
+      calling_code: "1",
+      status: null,
+      statuses: [],
+    },
+  ];
+  const file = path.join(tmp, "export.ndjson");
+  fs.writeFileSync(file, exportHeader("ndjson") + stored.map((m) => exportLine("ndjson", m)).join(""));
+
+  const records = [];
+  for await (const record of readImportRecords(file, "ndjson")) records.push(record);
+  expect(records).toEqual([
+    {
+      index: 1,
+      ok: true,
+      message: {
+        message_id: "n1",
+        from: "+15550001111",
+        to: "+15550002222",
+        ts: "2024-01-01T00:00:00Z",
+        type: "image",
+        media: stored[0]!.media!,
+      },
+    },
+    {
+      index: 2,
+      ok: true,
+      message: {
+        message_id: "n2",
+        from: "+15550002222",
+        to: "+15550001111",
+        ts: "2024-01-01T00:01:00Z",
+        type: "text",
+        text: "hello",
+      },
+    },
+    {
+      index: 3,
+      ok: true,
+      message: {
+        message_id: "n3",
+        from: "+15550001111",
+        to: "+15550002222",
+        ts: "2024-01-01T00:02:00Z",
+        type: "text",
+      },
+    },
+  ]);
+});
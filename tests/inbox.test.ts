@@ -0,0 +1,135 @@
+import { expect, test } from "bun:test";
+import { processInbox, retryDelayMs, type InboxOptions } from "../app/inbox.ts";
+import { renderMetrics } from "../app/metrics.ts";
+import {
+  discardDeadLetter,
+  enqueueInbox,
+  getDb,
+  getInboxStats,
+  initDb,
+  listDeadLetters,
+  requeueDeadLetter,
+} from "../app/storage.ts";
+
+initDb("sqlite::memory:");
+
+const options: InboxOptions = {
+  maxAttempts: 3,
+  retryBaseSec: 1,
+  retryMaxSec: 60,
+  pollIntervalMs: 250,
+  batchSize: 10,
+};
+
+const RECEIVED_AT = "2024-05-01T00:00:00.000Z";
+const at = (offsetMs: number) => new Date(Date.parse(RECEIVED_AT) + offsetMs);
+
+function enqueue(body: unknown): number {
+  const raw = typeof body === "string" ? body : JSON.stringify(body);
+  return enqueueInbox(
+    { body: raw, request_id: "req-1", trace_id: null, key_id: "default" },
+    RECEIVED_AT
+  );
+}
+
+const message = (id: string) => ({
+  message_id: id,
+  from: "+15550000001",
+  to: "+15550000002",
+  ts: "2024-05-01T00:00:00Z",
+  text: "hello",
+});
+
+const storedIds = () =>
+  (getDb().prepare("SELECT message_id FROM messages ORDER BY message_id").all() as {
+    message_id: string;
+  }[]).map((r) => r.message_id);
+
+function failInserts(fail: boolean): void {
+  if (fail) {
+    getDb().run(`CREATE TEMP TRIGGER fail_inserts BEFORE INSERT ON messages
+                 BEGIN SELECT RAISE(ABORT, 'disk full'); END`);
+  } else {
+    getDb().run("DROP TRIGGER fail_inserts");
+  }
+}
+
+test("valid items are stored and removed from the inbox", () => {
+  enqueue(message("in-1"));
+  enqueue(message("in-1"));
+  enqueue({ type: "status", message_id: "in-1", status: "read", ts: "2024-05-01T00:01:00Z" });
+
+  expect(processInbox(options, "ERROR", at(50))).toBe(3);
+  expect(storedIds()).toEqual(["in-1"]);
+  expect(getInboxStats()).toEqual({ pending: 0, oldest_received_at: null, dead_letters: 0 });
+  const metrics = renderMetrics();
+  expect(metrics).toContain('inbox_processed_total{result="created"} 1');
+  expect(metrics).toContain('inbox_processed_total{result="duplicate"} 1');
+  expect(metrics).toContain('inbox_processed_total{result="status_recorded"} 1');
+  expect(metrics).toContain("inbox_depth 0");
+});
+
+test("bodies that can never be stored are dead-lettered without retries", () => {
+  enqueue("{not json");
+  enqueue({ ...message("in-bad"), from: "nope" });
+
+  expect(processInbox(options, "ERROR", at(0))).toBe(2);
+  const { data, total } = listDeadLetters({ limit: 10, offset: 0 });
+  expect(total).toBe(2);
+  expect(data.map((d) => [d.reason, d.attempts])).toEqual([
+    ["validation_error", 1],
+    ["invalid_json", 1],
+  ]);
+  expect(JSON.parse(data[0]!.error).from._errors.length).toBeGreaterThan(0);
+  expect(getInboxStats().pending).toBe(0);
+
+  for (const row of data) expect(discardDeadLetter(row.id)).toBeTrue();
+  expect(discardDeadLetter(data[0]!.id)).toBeFalse();
+});
+
+test("storage errors are retried with backoff, then dead-lettered", () => {
+  const inboxId = enqueue(message("in-retry"));
+  failInserts(true);
+  try {
+    processInbox(options, "ERROR", at(0));
+    const row = getDb().prepare("SELECT * FROM inbox WHERE id = ?").get(inboxId) as {
+      attempts: number;
+      next_attempt_at: string;
+      last_error: string;
+    };
+    expect(row).toMatchObject({ attempts: 1, last_error: "disk full" });
+    expect(row.next_attempt_at).toBe(at(1000).toISOString());
+
+    // Not due yet.
+    expect(processInbox(options, "ERROR", at(500))).toBe(0);
+    processInbox(options, "ERROR", at(1000));
+    processInbox(options, "ERROR", at(3000));
+  } finally {
+    failInserts(false);
+  }
+
+  expect(getInboxStats()).toMatchObject({ pending: 0, dead_letters: 1 });
+  const [dead] = listDeadLetters({ limit: 10, offset: 0 }).data;
+  expect(dead).toMatchObject({
+    inbox_id: inboxId,
+    attempts: 3,
+    reason: "retries_exhausted",
+    error: "disk full",
+    request_id: "req-1",
+    received_at: RECEIVED_AT,
+  });
+
+  // Once storage recovers, a requeued dead letter goes through.
+  const requeued = requeueDeadLetter(dead!.id, at(4000).toISOString());
+  expect(requeued).not.toBeNull();
+  expect(requeueDeadLetter(dead!.id)).toBeNull();
+  expect(getInboxStats()).toEqual({ pending: 1, oldest_received_at: RECEIVED_AT, dead_letters: 0 });
+  processInbox(options, "ERROR", at(4000));
+  expect(storedIds()).toContain("in-retry");
+  expect(getInboxStats().pending).toBe(0);
+});
+
+test("retryDelayMs doubles per attempt up to the cap", () => {
+  expect([1, 2, 3, 4].map((n) => retryDelayMs(n, options))).toEqual([1000, 2000, 4000, 8000]);
+  expect(retryDelayMs(20, options)).toBe(60_000);
+});
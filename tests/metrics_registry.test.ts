@@ -0,0 +1,46 @@
+import { expect, test } from "bun:test";
+import { Counter, Gauge, Histogram, Registry } from "../app/metrics_registry.ts";
+
+test("metrics render with HELP/TYPE headers and escaped labels", () => {
+  const registry = new Registry();
+  const counter = registry.register(new Counter("jobs_total", "Jobs run.", ["kind"]));
+  registry.register(new Counter("starts_total", "Starts."));
+  const gauge = registry.register(new Gauge("queue_depth", "Queued jobs."));
+  counter.inc({ kind: 'say "hi"\n' }, 2);
+  gauge.set({}, 7);
+
+  expect(registry.render()).toBe(
+    [
+      "# HELP jobs_total Jobs run.",
+      "# TYPE jobs_total counter",
+      'jobs_total{kind="say \\"hi\\"\\n"} 2',
+      "# HELP starts_total Starts.",
+      "# TYPE starts_total counter",
+      "starts_total 0",
+      "# HELP queue_depth Queued jobs.",
+      "# TYPE queue_depth gauge",
+      "queue_depth 7",
+      "",
+    ].join("\n")
+  );
+});
+
+test("histograms expose cumulative buckets, sum and count", () => {
+  const registry = new Registry();
+  const histogram = registry.register(
+    new Histogram("latency_seconds", "Latency.", ["route"], [1, 0.1])
+  );
+  for (const value of [0.05, 0.5, 3]) histogram.observe({ route: "/a" }, value);
+
+  const lines = registry.render().split("\n");
+  expect(lines).toContain('latency_seconds_bucket{route="/a",le="0.1"} 1');
+  expect(lines).toContain('latency_seconds_bucket{route="/a",le="1"} 2');
+  expect(lines).toContain('latency_seconds_bucket{route="/a",le="+Inf"} 3');
+  expect(lines).toContain('latency_seconds_sum{route="/a"} 3.55');
+  expect(lines).toContain('latency_seconds_count{route="/a"} 3');
+});
+
+test("missing labels are a programming error", () => {
+  const counter = new Counter("x_total", "X.", ["a", "b"]);
+  expect(() => counter.inc({ a: "1" })).toThrow("missing label b");
+});
@@ -0,0 +1,126 @@
+import { Database } from "bun:sqlite";
+import { expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  appliedMigrations,
+  latestVersion,
+  pendingMigrations,
+  runMigrations,
+  SchemaTooNewError,
+  type Migration,
+} from "../app/migrate.ts";
+import { openDbReadOnly } from "../app/storage.ts";
+
+test("runMigrations applies every migration once and records it", () => {
+  const db = new Database(":memory:");
+  const applied = runMigrations(db);
+  expect(applied.map((m) => m.version)).toEqual(
+    Array.from({ length: latestVersion() }, (_, i) => i + 1)
+  );
+  expect(appliedMigrations(db).length).toBe(applied.length);
+  expect(runMigrations(db)).toEqual([]);
+});
+
+test("runMigrations adopts a database created before migrations existed", () => {
+  const db = new Database(":memory:");
+  db.run(`
+    CREATE TABLE messages (
+      message_id TEXT PRIMARY KEY,
+      from_msisdn TEXT NOT NULL,
+      to_msisdn TEXT NOT NULL,
+      ts TEXT NOT NULL,
+      text TEXT,
+      created_at TEXT NOT NULL
+    )
+  `);
+  db.run("INSERT INTO messages VALUES ('m1', '+1', '+2', '2024-01-01T00:00:00Z', 'hi', 'now')");
+  runMigrations(db);
+  expect(db.prepare("SELECT type FROM messages").get()).toEqual({ type: "text" });
+});
+
+test("dry run lists pending migrations without applying them", () => {
+  const db = new Database(":memory:");
+  const pending = runMigrations(db, { dryRun: true });
+  expect(pending.length).toBe(latestVersion());
+  expect(appliedMigrations(db)).toEqual([]);
+  expect(db.prepare("SELECT name FROM sqlite_master").all()).toEqual([]);
+});
+
+test("inspecting a database file writes nothing to it", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "migrate-"));
+  try {
+    const missing = path.join(dir, "missing", "app.db");
+    const pending = runMigrations(openDbReadOnly(`sqlite:${missing}`), { dryRun: true });
+    expect(pending.length).toBe(latestVersion());
+    expect(fs.existsSync(path.dirname(missing))).toBeFalse();
+
+    // A database from before migrations existed, in rollback-journal mode.
+    const file = path.join(dir, "app.db");
+    const legacy = new Database(file);
+    legacy.run("CREATE TABLE messages (message_id TEXT PRIMARY KEY)");
+    legacy.close();
+    const before = fs.readFileSync(file);
+
+    const db = openDbReadOnly(`sqlite:${file}`);
+    expect(appliedMigrations(db)).toEqual([]);
+    expect(runMigrations(db, { dryRun: true }).length).toBe(latestVersion());
+    db.close();
+    expect(fs.readFileSync(file).equals(before)).toBeTrue();
+    expect(fs.readdirSync(dir).sort()).toEqual(["app.db"]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("a failing migration is rolled back with its version row", () => {
+  const db = new Database(":memory:");
+  const migrations: Migration[] = [
+    { version: 1, name: "ok", up: (d) => d.run("CREATE TABLE a (id INTEGER)") },
+    {
+      version: 2,
+      name: "broken",
+      up: (d) => {
+        d.run("CREATE TABLE b (id INTEGER)");
+        d.run("NOT VALID SQL");
+      },
+    },
+  ];
+  expect(() => runMigrations(db, { migrations })).toThrow();
+  expect(appliedMigrations(db).map((m) => m.version)).toEqual([1]);
+  const tables = db.prepare("SELECT name FROM sqlite_master WHERE name = 'b'").all();
+  expect(tables).toEqual([]);
+});
+
+test("a database newer than the code is refused", () => {
+  const db = new Database(":memory:");
+  runMigrations(db);
+  db.run(
+    `INSERT INTO schema_migrations (version, name, applied_at) VALUES (${latestVersion() + 1}, 'future', 'now')`
+  );
+  expect(() => pendingMigrations(db)).toThrow(SchemaTooNewError);
+});
+
+test("messages_fts stays in sync with messages", () => {
+  const db = new Database(":memory:");
+  runMigrations(db);
+  const insert = db.prepare(
+    "INSERT INTO messages (message_id, from_msisdn, to_msisdn, ts, text, created_at) VALUES (?, '+1', '+2', '2024-01-01T00:00:00Z', ?, 'now')"
+  );
+  insert.run("m1", "hello world");
+  insert.run("m2", "goodbye world");
+  const matches = (q: string) =>
+    db
+      .prepare(
+        "SELECT m.message_id FROM messages m JOIN messages_fts ON messages_fts.rowid = m.id WHERE messages_fts MATCH ? ORDER BY m.message_id"
+      )
+      .all(q)
+      .map((r: any) => r.message_id);
+
+  expect(matches("world")).toEqual(["m1", "m2"]);
+  db.run("UPDATE messages SET text = 'hello there' WHERE message_id = 'm2'");
+  expect(matches("world")).toEqual(["m1"]);
+  db.run("DELETE FROM messages WHERE message_id = 'm1'");
+  expect(matches("hello")).toEqual(["m2"]);
+});
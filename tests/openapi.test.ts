@@ -0,0 +1,149 @@
+import { afterAll, expect, test } from "bun:test";
+import express from "express";
+import { createHmac } from "node:crypto";
+import type http from "http";
+import { createApiKey } from "../app/api_keys.ts";
+import {
+  buildOpenApiDocument,
+  responseContractViolation,
+  routeContracts,
+  validateResponses,
+} from "../app/openapi.ts";
+
+// main.ts reads its settings on import; NODE_ENV=test turns on response validation.
+const testEnv: Record<string, string> = {
+  DATABASE_URL: "sqlite::memory:",
+  WEBHOOK_SECRET: "testsecret",
+  TRACING_EXPORTER: "none",
+  LOG_LEVEL: "ERROR",
+};
+const savedEnv = Object.fromEntries(Object.keys(testEnv).map((name) => [name, Bun.env[name]]));
+Object.assign(Bun.env, testEnv);
+const { app } = await import("../app/main.ts");
+for (const [name, value] of Object.entries(savedEnv)) {
+  if (value === undefined) delete Bun.env[name];
+  else Bun.env[name] = value;
+}
+
+async function listen(handler: express.Express): Promise<{ server: http.Server; url: string }> {
+  const server = handler.listen(0, "127.0.0.1");
+  await new Promise<void>((resolve) => server.once("listening", resolve));
+  const { port } = server.address() as { port: number };
+  return { server, url: `http://127.0.0.1:${port}` };
+}
+
+const servers: http.Server[] = [];
+afterAll(() => {
+  for (const server of servers) server.close();
+});
+
+test("every route the app serves has a contract, and only those", () => {
+  const served = ((app as any).router.stack as any[])
+    .filter((layer) => layer.route)
+    .flatMap((layer) =>
+      Object.keys(layer.route.methods).map((m) => `${m.toUpperCase()} ${layer.route.path}`)
+    );
+  expect(served.sort()).toEqual(routeContracts.map((c) => `${c.method} ${c.path}`).sort());
+});
+
+test("the document is OpenAPI 3.1 and every $ref resolves", () => {
+  const doc = buildOpenApiDocument() as any;
+  expect(doc.openapi).toBe("3.1.0");
+  expect(Object.keys(doc.paths)).toContain("/admin/dead-letters/{id}/requeue");
+  expect(doc.paths["/messages"].get["x-required-scope"]).toBe("messages:read");
+  const query = doc.paths["/messages"].get.parameters.map((p: any) => p.name);
+  expect(query).toEqual(expect.arrayContaining(["from", "country", "cursor", "include_total"]));
+  expect(doc.paths["/webhook"].post.requestBody.content["application/json"].schema).toEqual({
+    $ref: "#/components/schemas/WebhookPayload",
+  });
+
+  const refs = JSON.stringify(doc).matchAll(/"#\/components\/schemas\/([^"]+)"/g);
+  for (const [, name] of refs) expect(Object.keys(doc.components.schemas)).toContain(name!);
+});
+
+test("responses from the app match their contracts", async () => {
+  const { server, url } = await listen(app);
+  servers.push(server);
+  const reader = createApiKey("contract-reader", ["messages:read", "stats:read"]).token;
+  const admin = createApiKey("contract-admin", ["admin"]).token;
+  const auth = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+  const send = (body: unknown, path = "/webhook") => {
+    const raw = JSON.stringify(body);
+    return fetch(`${url}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Signature": createHmac("sha256", "testsecret").update(raw).digest("hex"),
+      },
+      body: raw,
+    });
+  };
+  const message = {
+    message_id: "contract-1",
+    from: "+91 98765 43210",
+    to: "+14155550100",
+    ts: "2024-05-01T00:00:00Z",
+    text: "hello",
+  };
+
+  const receipt = { type: "status", message_id: "contract-1", status: "read", ts: message.ts };
+  const batch = [{ ...message, message_id: "contract-2" }, { message_id: "x" }];
+  const statuses = [
+    (await send(message)).status,
+    (await send({ ...message, text: "edited" })).status,
+    (await send({ ...message, from: "+0" })).status,
+    (await send(receipt)).status,
+    (await send(batch, "/webhook/batch")).status,
+  ];
+  for (const [path, token] of [
+    ["/health/ready", null],
+    ["/openapi.json", null],
+    ["/messages?q=hello", reader],
+    ["/messages?country=IN&include_total=false", reader],
+    ["/messages?limit=0", reader],
+    ["/conversations", reader],
+    ["/conversations/%2B919876543210/%2B14155550100/messages", reader],
+    ["/stats", reader],
+    ["/stats/timeseries?interval=hour", reader],
+    ["/stats", null],
+    ["/admin/inbox", reader],
+    ["/admin/inbox", admin],
+    ["/admin/dead-letters", admin],
+    ["/admin/dead-letters/1", admin],
+  ] as const) {
+    statuses.push((await fetch(`${url}${path}`, { headers: token ? auth(token) : {} })).status);
+  }
+  const erased = await fetch(`${url}/contacts/%2B14155550100`, {
+    method: "DELETE",
+    headers: auth(admin),
+  });
+  statuses.push(erased.status);
+
+  // A contract violation would show up as a 500.
+  expect(statuses).toEqual([
+    200, 200, 422, 200, 200, 200, 200, 200, 200, 422, 200, 200, 200, 200, 401, 403, 200, 200, 404,
+    200,
+  ]);
+});
+
+test("a response that breaks its contract is turned into a 500", async () => {
+  const broken = express();
+  broken.use(validateResponses("ERROR"));
+  broken.get("/stats", (_req, res) => {
+    res.json({ total_messages: "many" });
+  });
+  broken.get("/admin/inbox", (_req, res) => {
+    res.status(418).json({ detail: "teapot" });
+  });
+  const { server, url } = await listen(broken);
+  servers.push(server);
+
+  const stats = await fetch(`${url}/stats`);
+  expect(stats.status).toBe(500);
+  expect(((await stats.json()) as { detail: string }).detail).toContain("total_messages");
+  expect((await fetch(`${url}/admin/inbox`)).status).toBe(500);
+
+  expect(responseContractViolation("GET", "/admin/inbox", 418, {})).toContain("not documented");
+  expect(responseContractViolation("GET", "/health/live", 200, { status: "live" })).toBeNull();
+});
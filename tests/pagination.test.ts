@@ -0,0 +1,13 @@
+import { expect, test } from "bun:test";
+import { decodeCursor, encodeCursor } from "../app/pagination.ts";
+
+test("cursors round-trip and reject tampering", () => {
+  const cursor = { ts: "2024-01-01T00:00:00Z", message_id: "wamid.ABC", direction: "prev" as const };
+  const encoded = encodeCursor(cursor);
+  expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+  expect(decodeCursor(encoded)).toEqual(cursor);
+
+  expect(decodeCursor("not-a-cursor")).toBeNull();
+  const badTs = Buffer.from(JSON.stringify({ d: "n", ts: "yesterday", id: "x" })).toString("base64url");
+  expect(decodeCursor(badTs)).toBeNull();
+});
@@ -0,0 +1,88 @@
+import { Database } from "bun:sqlite";
+import { expect, test } from "bun:test";
+import { runMigrations } from "../app/migrate.ts";
+import { migrations } from "../app/migrations/index.ts";
+import { phoneSchema, type WebhookMessage } from "../app/models.ts";
+import { normalizePhone, phoneCountry } from "../app/phone.ts";
+import { parseMessagesQuery } from "../app/queries.ts";
+import { getDb, getStats, initDb, insertMessage, listMessages } from "../app/storage.ts";
+
+initDb("sqlite::memory:");
+
+test("normalizePhone drops formatting and enforces E.164", () => {
+  expect(normalizePhone("+91 98765 43210")).toBe("+919876543210");
+  expect(normalizePhone("+1 (555) 000-1111")).toBe("+15550001111");
+  expect(normalizePhone("+44.20.7946.0000")).toBe("+442079460000");
+  expect(normalizePhone("+0123456789")).toBeNull();
+  expect(normalizePhone("+123456")).toBeNull();
+  expect(normalizePhone(`+1${"2".repeat(15)}`)).toBeNull();
+  expect(normalizePhone("15550001111")).toBeNull();
+  expect(phoneSchema.safeParse("+1 555 000 1111").success).toBeTrue();
+  expect(phoneSchema.safeParse("+0").success).toBeFalse();
+});
+
+test("phoneCountry resolves calling codes and shared-code regions", () => {
+  expect(phoneCountry("+919876543210")).toEqual({ callingCode: "91", country: "IN" });
+  expect(phoneCountry("+12125550000")).toEqual({ callingCode: "1", country: "US" });
+  expect(phoneCountry("+14165550000")).toEqual({ callingCode: "1", country: "CA" });
+  expect(phoneCountry("+78125550000")).toEqual({ callingCode: "7", country: "RU" });
+  expect(phoneCountry("+77015550000")).toEqual({ callingCode: "7", country: "KZ" });
+  expect(phoneCountry("+3725550000")).toEqual({ callingCode: "372", country: "EE" });
+  expect(phoneCountry("+8085550000")).toBeNull();
+});
+
+test("messages store the canonical number, the raw one and the sender's country", () => {
+  const message = (id: string, from: string): WebhookMessage => ({
+    message_id: id,
+    from,
+    to: "+1 212 555 0000",
+    ts: "2024-06-01T00:00:00Z",
+    type: "text",
+    text: "hi",
+  });
+  insertMessage(message("ph-1", "+91 98765 43210"));
+  insertMessage(message("ph-2", "+919876543210"));
+  insertMessage(message("ph-3", "+14165550000"));
+
+  expect(
+    getDb().prepare("SELECT from_msisdn, from_raw, to_msisdn FROM messages WHERE message_id = 'ph-1'").get()
+  ).toEqual({ from_msisdn: "+919876543210", from_raw: "+91 98765 43210", to_msisdn: "+12125550000" });
+
+  const india = listMessages({ limit: 10, offset: 0, country: ["IN"] });
+  expect(india.data.map((m) => [m.message_id, m.country, m.calling_code])).toEqual([
+    ["ph-1", "IN", "91"],
+    ["ph-2", "IN", "91"],
+  ]);
+  const stats = getStats();
+  expect(stats.messages_per_sender).toContainEqual({ from: "+919876543210", count: 2 });
+  expect(stats.messages_per_country).toContainEqual({ country: "IN", calling_code: "91", count: 2 });
+  expect(stats.messages_per_country).toContainEqual({ country: "CA", calling_code: "1", count: 1 });
+});
+
+test("the country filter is uppercased and checked against the table", () => {
+  const parse = (qs: string) => parseMessagesQuery(new URL(`http://localhost/messages?${qs}`));
+  const ok = parse("country=in,ca");
+  expect(ok.ok && ok.value.country).toEqual(["IN", "CA"]);
+  const bad = parse("country=ZZ");
+  expect(!bad.ok && (bad.error.body as any).country[0]._errors).toEqual(["unknown country code"]);
+});
+
+test("the migration backfills canonical numbers and countries", () => {
+  const db = new Database(":memory:");
+  runMigrations(db, { migrations: migrations.filter((m) => m.version <= 10) });
+  db.run(`INSERT INTO messages (message_id, from_msisdn, to_msisdn, ts, text, created_at)
+          VALUES ('old-1', '+91 98765-43210', '+1', '2024-01-01T00:00:00Z', 'hi', 'now')`);
+  runMigrations(db);
+  expect(
+    db
+      .prepare("SELECT from_msisdn, from_raw, to_msisdn, to_raw, from_country, from_calling_code FROM messages")
+      .get()
+  ).toEqual({
+    from_msisdn: "+919876543210",
+    from_raw: "+91 98765-43210",
+    to_msisdn: "+1",
+    to_raw: "+1",
+    from_country: "IN",
+    from_calling_code: "91",
+  });
+});
@@ -0,0 +1,241 @@
+import { expect, test } from "bun:test";
+import {
+  normalizeMetaPayload,
+  normalizeMsisdn,
+  normalizeTwilioPayload,
+  type NormalizeResult,
+} from "../app/providers.ts";
+
+test("normalizeMsisdn strips channel prefixes and formatting", () => {
+  expect(normalizeMsisdn("whatsapp:+14155238886")).toBe("+14155238886");
+  expect(normalizeMsisdn("1 (555) 000-1111")).toBe("+15550001111");
+});
+
+test("normalizeMetaPayload flattens entry/changes/messages", () => {
+  const result = normalizeMetaPayload({
+    object: "whatsapp_business_account",
+    entry: [
+      {
+        id: "WABA_ID",
+        changes: [
+          {
+            field: "messages",
+            value: {
+              messaging_product: "whatsapp",
+              metadata: { display_phone_number: "15550001111", phone_number_id: "123" },
+              messages: [
+                {
+                  from: "919876543210",
+                  id: "wamid.ABC",
+                  timestamp: "1700000000",
+                  type: "text",
+                  text: { body: "hello" },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    ],
+  });
+
+  expect(result).toEqual({
+    ok: true,
+    messages: [
+      {
+        message_id: "wamid.ABC",
+        from: "+919876543210",
+        to: "+15550001111",
+        ts: "2023-11-14T22:13:20Z",
+        type: "text",
+        text: "hello",
+      },
+    ],
+    statuses: [],
+  });
+});
+
+test("normalizeMetaPayload maps statuses to status events", () => {
+  const result = normalizeMetaPayload({
+    entry: [
+      {
+        changes: [
+          {
+            value: {
+              statuses: [
+                { id: "wamid.ABC", status: "read", timestamp: "1700000000", recipient_id: "919876543210" },
+                { id: "wamid.ABC", status: "failed", timestamp: "1700000001", errors: [{ code: 131026, title: "Undeliverable" }] },
+                { id: "wamid.ABC", status: "deleted", timestamp: "1700000002" },
+              ],
+            },
+          },
+        ],
+      },
+    ],
+  });
+  expect(result).toEqual({
+    ok: true,
+    messages: [],
+    statuses: [
+      {
+        type: "status",
+        message_id: "wamid.ABC",
+        status: "read",
+        ts: "2023-11-14T22:13:20Z",
+        recipient: "+919876543210",
+        error_code: undefined,
+        error_message: undefined,
+      },
+      {
+        type: "status",
+        message_id: "wamid.ABC",
+        status: "failed",
+        ts: "2023-11-14T22:13:21Z",
+        recipient: undefined,
+        error_code: "131026",
+        error_message: "Undeliverable",
+      },
+    ],
+  });
+});
+
+test("normalizeMetaPayload rejects messages without the business number", () => {
+  const change = (metadata: object | undefined) => ({
+    entry: [
+      {
+        changes: [
+          {
+            value: {
+              metadata,
+              messages: [{ from: "919876543210", id: "wamid.NO_TO", timestamp: "1700000000", type: "text" }],
+            },
+          },
+        ],
+      },
+    ],
+  });
+  const rejected: NormalizeResult = {
+    ok: false,
+    error: {
+      message_id: "wamid.NO_TO",
+      errors: {
+        _errors: [],
+        to: { _errors: ["metadata.display_phone_number is required to know the recipient"] },
+      },
+    },
+  };
+  expect(normalizeMetaPayload(change({ phone_number_id: "123" }))).toEqual(rejected);
+  expect(normalizeMetaPayload(change(undefined))).toEqual(rejected);
+});
+
+test("normalizeTwilioPayload maps form fields", () => {
+  const params = new URLSearchParams({
+    MessageSid: "SM123",
+    From: "whatsapp:+14155238886",
+    To: "whatsapp:+15005550006",
+    Body: "hi",
+  });
+  const result = normalizeTwilioPayload(params, new Date("2024-01-02T03:04:05.678Z"));
+  expect(result).toEqual({
+    ok: true,
+    messages: [
+      {
+        message_id: "SM123",
+        from: "+14155238886",
+        to: "+15005550006",
+        ts: "2024-01-02T03:04:05Z",
+        type: "text",
+        text: "hi",
+      },
+    ],
+    statuses: [],
+  });
+  expect(normalizeTwilioPayload(new URLSearchParams({ Body: "x" })).ok).toBeFalse();
+});
+
+test("normalizeTwilioPayload maps status callbacks", () => {
+  const received = new Date("2024-01-02T03:04:05Z");
+  const undelivered = normalizeTwilioPayload(
+    new URLSearchParams({ MessageSid: "SM1", MessageStatus: "undelivered", ErrorCode: "30003" }),
+    received
+  );
+  expect(undelivered.ok && undelivered.statuses[0]).toMatchObject({
+    message_id: "SM1",
+    status: "failed",
+    error_code: "30003",
+  });
+
+  const queued = normalizeTwilioPayload(
+    new URLSearchParams({ MessageSid: "SM1", MessageStatus: "queued" }),
+    received
+  );
+  expect(queued).toEqual({ ok: true, messages: [], statuses: [] });
+});
+
+test("normalizeMetaPayload maps media, location and contacts", () => {
+  const message = (extra: Record<string, unknown>) => ({
+    from: "919876543210",
+    id: `wamid.${extra.type}`,
+    timestamp: "1700000000",
+    ...extra,
+  });
+  const result = normalizeMetaPayload({
+    entry: [
+      {
+        changes: [
+          {
+            value: {
+              metadata: { display_phone_number: "15550001111" },
+              messages: [
+                message({
+                  type: "image",
+                  image: { id: "MEDIA1", mime_type: "image/jpeg", sha256: "abc=", caption: "look" },
+                }),
+                message({
+                  type: "location",
+                  location: { latitude: 12.97, longitude: 77.59, name: "Office" },
+                }),
+                message({
+                  type: "contacts",
+                  contacts: [{ name: { formatted_name: "Asha" }, phones: [{ phone: "+91 98765 43210" }] }],
+                }),
+                message({ type: "reaction", reaction: { emoji: "👍" } }),
+              ],
+            },
+          },
+        ],
+      },
+    ],
+  });
+
+  expect(result.ok).toBeTrue();
+  const [image, location, contacts, reaction] = result.ok ? result.messages : [];
+  expect(image).toMatchObject({
+    type: "image",
+    media: { id: "MEDIA1", mime_type: "image/jpeg", sha256: "abc=", caption: "look" },
+  });
+  expect(location).toMatchObject({ type: "location", location: { latitude: 12.97, name: "Office" } });
+  expect(contacts).toMatchObject({
+    type: "contacts",
+    contacts: [{ name: "Asha", phones: ["+91 98765 43210"], emails: [] }],
+  });
+  expect(reaction).toMatchObject({ type: "text", text: undefined });
+});
+
+test("normalizeTwilioPayload maps media attachments", () => {
+  const result = normalizeTwilioPayload(
+    new URLSearchParams({
+      MessageSid: "MM1",
+      From: "whatsapp:+14155238886",
+      To: "whatsapp:+15005550006",
+      Body: "invoice",
+      NumMedia: "1",
+      MediaUrl0: "https://api.twilio.com/media/ME1",
+      MediaContentType0: "application/pdf",
+    })
+  );
+  expect(result.ok && result.messages[0]).toMatchObject({
+    type: "document",
+    media: { id: "https://api.twilio.com/media/ME1", mime_type: "application/pdf", caption: "invoice" },
+  });
+});
@@ -0,0 +1,90 @@
+import { expect, test } from "bun:test";
+import { encodeCursor } from "../app/pagination.ts";
+import {
+  parseConversationsQuery,
+  parseMessagesQuery,
+  parseTimeseriesQuery,
+} from "../app/queries.ts";
+
+const parse = (qs: string) => parseMessagesQuery(new URL(`http://localhost/messages?${qs}`));
+
+test("parseMessagesQuery applies defaults", () => {
+  expect(parse("")).toEqual({
+    ok: true,
+    value: {
+      limit: 50,
+      offset: 0,
+      from: undefined,
+      to: undefined,
+      since: undefined,
+      until: undefined,
+      createdSince: undefined,
+      createdUntil: undefined,
+      q: undefined,
+      hasText: undefined,
+      type: undefined,
+      status: undefined,
+      searchMode: "fts",
+      sort: "time",
+      order: "asc",
+      cursor: undefined,
+      includeTotal: true,
+    },
+  });
+});
+
+test("parseMessagesQuery merges sender lists and restores unencoded plus signs", () => {
+  const result = parse("from=+15550001,%2B15550002&from=%2B15550003&to=%2B15550009&has_text=false&order=desc");
+  expect(result.ok && result.value).toMatchObject({
+    from: ["+15550001", "+15550002", "+15550003"],
+    to: ["+15550009"],
+    hasText: false,
+    order: "desc",
+  });
+});
+
+test("parseMessagesQuery normalises created_* bounds to UTC with milliseconds", () => {
+  const result = parse("created_since=2024-01-01T05:30:00%2B05:30");
+  expect(result.ok && result.value.createdSince).toBe("2024-01-01T00:00:00.000Z");
+});
+
+test("parseMessagesQuery reports errors keyed by parameter", () => {
+  const result = parse("limit=500&since=2024-02-01T00:00:00Z&until=2024-01-01T00:00:00Z&from=abc");
+  expect(result.ok).toBeFalse();
+  if (result.ok) return;
+  expect(result.error.status).toBe(422);
+  const body = result.error.body as Record<string, { _errors: string[] }>;
+  expect(Object.keys(body).sort()).toEqual(["_errors", "from", "limit", "until"]);
+  expect(body.until!._errors).toEqual(["until must not be before since"]);
+});
+
+test("parseMessagesQuery rejects cursor combined with offset", () => {
+  const cursor = encodeCursor({ ts: "2024-01-01T00:00:00Z", message_id: "m1", direction: "next" });
+  expect(parse(`cursor=${cursor}`).ok).toBeTrue();
+  const result = parse(`cursor=${cursor}&offset=10`);
+  expect(!result.ok && (result.error.body as any).cursor._errors).toEqual([
+    "cursor and offset cannot be combined",
+  ]);
+});
+
+test("parseConversationsQuery restores an unencoded plus in participant", () => {
+  const result = parseConversationsQuery(new URL("http://localhost/conversations?participant=+15550001111&limit=10"));
+  expect(result).toEqual({ ok: true, value: { limit: 10, offset: 0, participant: "+15550001111" } });
+  expect(parseConversationsQuery(new URL("http://localhost/conversations?participant=abc")).ok).toBeFalse();
+});
+
+test("parseTimeseriesQuery defaults to daily buckets and checks the range", () => {
+  const url = (qs: string) => new URL(`http://localhost/stats/timeseries?${qs}`);
+  expect(parseTimeseriesQuery(url("from=%2B15550001111"))).toEqual({
+    ok: true,
+    value: { interval: "day", since: undefined, until: undefined, from: ["+15550001111"] },
+  });
+  const badInterval = parseTimeseriesQuery(url("interval=month"));
+  expect(!badInterval.ok && Object.keys(badInterval.error.body as object)).toContain("interval");
+  const badRange = parseTimeseriesQuery(
+    url("interval=week&since=2024-02-01T00:00:00Z&until=2024-01-01T00:00:00Z")
+  );
+  expect(!badRange.ok && (badRange.error.body as any).until._errors).toEqual([
+    "until must not be before since",
+  ]);
+});
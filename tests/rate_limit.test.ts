@@ -0,0 +1,34 @@
+import { expect, test } from "bun:test";
+import { registerRateLimiter, renderMetrics } from "../app/metrics.ts";
+import { isAllowListed, parseAllowList, TokenBucketLimiter } from "../app/rate_limit.ts";
+
+test("a bucket allows its burst, then refills at the configured rate", () => {
+  const limiter = new TokenBucketLimiter({ ratePerSec: 2, burst: 3 });
+  const t0 = 1_000_000;
+  expect([1, 2, 3].map(() => limiter.take("a", t0).allowed)).toEqual([true, true, true]);
+  expect(limiter.take("a", t0)).toEqual({ allowed: false, retryAfterSec: 1 });
+  expect(limiter.take("b", t0).allowed).toBeTrue();
+  expect(limiter.take("a", t0 + 500).allowed).toBeTrue();
+  expect(limiter.take("a", t0 + 500).allowed).toBeFalse();
+  expect(limiter.rejected).toBe(2);
+});
+
+test("limiters are exported to /metrics", () => {
+  const limiter = new TokenBucketLimiter({ ratePerSec: 5, burst: 10 });
+  limiter.take("x");
+  registerRateLimiter("test", limiter);
+  const text = renderMetrics();
+  expect(text).toContain('rate_limit_per_second{limit="test"} 5');
+  expect(text).toContain('rate_limit_tracked_keys{limit="test"} 1');
+});
+
+test("allow-lists match IPv4 and IPv6 ranges, including mapped addresses", () => {
+  const list = parseAllowList("173.252.64.0/18, 2a03:2880::/32, 10.0.0.1");
+  expect(isAllowListed(list, "173.252.100.7")).toBeTrue();
+  expect(isAllowListed(list, "::ffff:173.252.100.7")).toBeTrue();
+  expect(isAllowListed(list, "2a03:2880:f003::1")).toBeTrue();
+  expect(isAllowListed(list, "10.0.0.1")).toBeTrue();
+  expect(isAllowListed(list, "10.0.0.2")).toBeFalse();
+  expect(isAllowListed(list, undefined)).toBeFalse();
+  expect(() => parseAllowList("10.0.0.0/33")).toThrow("invalid prefix length");
+});
@@ -0,0 +1,137 @@
+import { expect, test } from "bun:test";
+import { runRetention } from "../app/retention.ts";
+import {
+  deadLetterInboxItem,
+  dueInboxItems,
+  enqueueInbox,
+  eraseContact,
+  erasureSubjectHash,
+  getDb,
+  initDb,
+  insertMessage,
+  insertStatusEvent,
+} from "../app/storage.ts";
+
+initDb("sqlite::memory:");
+
+const message = (id: string, from: string, to: string, ts: string) =>
+  insertMessage({ message_id: id, from, to, ts, type: "text", text: `body of ${id}` });
+
+const ids = () =>
+  (getDb().prepare("SELECT message_id FROM messages ORDER BY message_id").all() as {
+    message_id: string;
+  }[]).map((r) => r.message_id);
+
+test("runRetention purges messages and statuses older than the window", () => {
+  message("r-old", "+1000", "+2000", "2024-01-01T00:00:00Z");
+  message("r-new", "+1000", "+2000", "2024-03-01T00:00:00Z");
+  insertStatusEvent({ type: "status", message_id: "r-old", status: "read", ts: "2024-01-01T00:05:00Z" });
+
+  const result = runRetention(30, "INFO", new Date("2024-03-15T00:00:00Z"));
+
+  expect(result).toEqual({
+    messages_deleted: 1,
+    statuses_deleted: 1,
+    conflicts_deleted: 0,
+    inbox_deleted: 0,
+    dead_letters_deleted: 0,
+  });
+  expect(ids()).toEqual(["r-new"]);
+  const fts = getDb().prepare("SELECT rowid FROM messages_fts WHERE messages_fts MATCH 'old'").all();
+  expect(fts).toEqual([]);
+});
+
+test("eraseContact removes both directions and leaves a tombstone", () => {
+  message("e-out", "+3000", "+4000", "2024-03-01T00:00:00Z");
+  message("e-in", "+4000", "+3000", "2024-03-01T00:01:00Z");
+  message("e-other", "+4000", "+5000", "2024-03-01T00:02:00Z");
+  insertStatusEvent({ type: "status", message_id: "e-out", status: "delivered", ts: "2024-03-01T00:00:05Z" });
+
+  const erasure = eraseContact("+3000", "req-1");
+
+  expect(erasure).toMatchObject({ messages_deleted: 2, statuses_deleted: 1 });
+  expect(ids()).toContain("e-other");
+  expect(ids()).not.toContain("e-in");
+  const tombstone = getDb().prepare("SELECT * FROM erasures WHERE id = ?").get(erasure.erasure_id);
+  expect(tombstone).toMatchObject({ subject_hash: erasureSubjectHash("+3000"), request_id: "req-1" });
+});
+
+test("erasure and retention delete recorded conflicts naming the number", () => {
+  message("x-1", "+15550007001", "+15550007002", "2024-03-01T00:00:00Z");
+  // The incoming copy names the contact only in its formatted, as-sent number.
+  insertMessage({
+    message_id: "x-1",
+    from: "+1 555 000 7003",
+    to: "+15550007002",
+    ts: "2024-03-01T00:00:00Z",
+    type: "text",
+    text: "other",
+  });
+  message("x-2", "+15550007004", "+15550007005", "2024-01-01T00:00:00Z");
+  insertMessage({
+    message_id: "x-2",
+    from: "+15550007004",
+    to: "+15550007005",
+    ts: "2024-01-01T00:00:00Z",
+    type: "text",
+  });
+  const conflicts = () =>
+    (getDb().prepare("SELECT message_id FROM message_conflicts ORDER BY message_id").all() as {
+      message_id: string;
+    }[]).map((r) => r.message_id);
+  expect(conflicts()).toEqual(["x-1", "x-2"]);
+
+  const erasure = eraseContact("+15550007003");
+  expect(erasure).toMatchObject({ messages_deleted: 0, conflicts_deleted: 1 });
+  expect(conflicts()).toEqual(["x-2"]);
+  const tombstone = getDb()
+    .prepare("SELECT conflicts_deleted FROM erasures WHERE id = ?")
+    .get(erasure.erasure_id);
+  expect(tombstone).toEqual({ conflicts_deleted: 1 });
+
+  expect(runRetention(30, "INFO", new Date("2024-03-15T00:00:00Z")).conflicts_deleted).toBe(1);
+  expect(conflicts()).toEqual([]);
+});
+
+test("erasure and retention delete raw webhook bodies naming the number", () => {
+  const enqueue = (body: unknown, receivedAt: string) =>
+    enqueueInbox(
+      {
+        body: typeof body === "string" ? body : JSON.stringify(body),
+        request_id: null,
+        trace_id: null,
+        key_id: null,
+      },
+      receivedAt
+    );
+  const ts = "2024-03-01T00:00:00Z";
+  enqueue({ message_id: "w-1", from: "+1 (555) 000-8001", to: "+15550008002", ts }, ts);
+  enqueue({ type: "status", message_id: "w-2", status: "read", ts, recipient: "+15550008001" }, ts);
+  // Only the text mentions the number, so the body is kept.
+  const text = "call +1 555 000 8001";
+  enqueue({ message_id: "w-3", from: "+15550008003", to: "+15550008002", ts, text }, ts);
+  enqueue("not json +15550008001", ts);
+  const dead = enqueue({ message_id: "w-4", from: "+15550008002", to: "+15550008001", ts }, ts);
+  const deadItem = dueInboxItems(ts, 10).find((item) => item.id === dead)!;
+  deadLetterInboxItem(deadItem, 1, "validation_error", "bad");
+  const bodies = (table: string) =>
+    (getDb().prepare(`SELECT body FROM ${table} ORDER BY id`).all() as { body: string }[]).map(
+      (r) => r.body
+    );
+
+  const erasure = eraseContact("+15550008001");
+  expect(erasure).toMatchObject({ inbox_deleted: 2, dead_letters_deleted: 1 });
+  expect(bodies("inbox")).toHaveLength(2);
+  expect(bodies("inbox").join()).not.toContain("w-1");
+  expect(bodies("dead_letters")).toEqual([]);
+  const tombstone = getDb()
+    .prepare("SELECT inbox_deleted, dead_letters_deleted FROM erasures WHERE id = ?")
+    .get(erasure.erasure_id);
+  expect(tombstone).toEqual({ inbox_deleted: 2, dead_letters_deleted: 1 });
+
+  const recent = "2024-03-20T00:00:00Z";
+  enqueue({ message_id: "w-5", from: "+15550008003", to: "+15550008002", ts: recent }, recent);
+  const purged = runRetention(10, "INFO", new Date("2024-03-25T00:00:00Z"));
+  expect(purged).toMatchObject({ inbox_deleted: 2, dead_letters_deleted: 0 });
+  expect(bodies("inbox")).toHaveLength(1);
+});
@@ -1,5 +1,13 @@
 import { expect, test } from "bun:test";
-import { computeHmac, isValidSignature } from "../app/security.ts";
+import {
+  computeHmac,
+  computeTwilioSignature,
+  isValidMetaSignature,
+  isValidSignature,
+  isValidTwilioSignature,
+  markSignatureUsed,
+  verifyWebhookSignature,
+} from "../app/security.ts";
 
 test("computeHmac produces deterministic hex", () => {
   const secret = "secret";
@@ -21,3 +29,106 @@ test("isValidSignature returns false for mismatched signature", () => {
   expect(isValidSignature("deadbeef", secret, body)).toBeFalse();
 });
 
+
+test("isValidMetaSignature accepts sha256= prefixed hex", () => {
+  const secret = "secret";
+  const body = '{"hello":"world"}';
+  const header = `sha256=${computeHmac(secret, body)}`;
+  expect(isValidMetaSignature(header, secret, body)).toBeTrue();
+  expect(isValidMetaSignature(computeHmac(secret, body), secret, body)).toBeFalse();
+  expect(isValidMetaSignature(header, "other", body)).toBeFalse();
+});
+
+test("computeTwilioSignature matches Twilio's documented example", () => {
+  const params = new URLSearchParams({
+    CallSid: "CA1234567890ABCDE",
+    Caller: "+12349013030",
+    Digits: "1234",
+    From: "+12349013030",
+    To: "+18005551212",
+  });
+  const url = "https://mycompany.com/myapp.php?foo=1&bar=2";
+  const sig = computeTwilioSignature("12345", url, params);
+  expect(sig).toBe("0/KCTR6DLpKmkAf8muzZqo1nDgQ=");
+  expect(isValidTwilioSignature(sig, "12345", url, params)).toBeTrue();
+  expect(isValidTwilioSignature(sig, "12345", "https://mycompany.com/other", params)).toBeFalse();
+});
+
+function key(id: string, secret: string, notBefore: number | null = null, expiresAt: number | null = null) {
+  return { id, secret, notBefore, expiresAt };
+}
+
+test("verifyWebhookSignature enforces tolerance and rejects replays", () => {
+  const keys = [key("k1", "secret")];
+  const rawBody = '{"message_id":"m1"}';
+  const policy = { requireTimestamp: false, toleranceSec: 300 };
+  const now = 1_700_000_000_000;
+  const timestamp = String(now / 1000);
+  const signature = computeHmac("secret", `${timestamp}.${rawBody}`);
+  const request = { signature, timestamp, keyId: null, rawBody };
+
+  const verification = verifyWebhookSignature(request, keys, policy, now);
+  expect(verification.result).toBe("ok");
+  // Verifying alone does not use up the signature; accepting the request does.
+  expect(verifyWebhookSignature(request, keys, policy, now).result).toBe("ok");
+  markSignatureUsed(verification, now);
+  expect(verifyWebhookSignature(request, keys, policy, now + 1000).result).toBe(
+    "replayed_signature"
+  );
+  expect(verifyWebhookSignature(request, keys, policy, now + 301_000).result).toBe(
+    "stale_timestamp"
+  );
+  // A body-only signature is not valid once a timestamp is sent.
+  const bodyOnly = { ...request, signature: computeHmac("secret", rawBody) };
+  expect(verifyWebhookSignature(bodyOnly, keys, policy, now).result).toBe("invalid_signature");
+});
+
+test("verifyWebhookSignature can require timestamps", () => {
+  const keys = [key("k1", "secret")];
+  const rawBody = "abc";
+  const request = { signature: computeHmac("secret", rawBody), timestamp: null, keyId: null, rawBody };
+  expect(
+    verifyWebhookSignature(request, keys, { requireTimestamp: false, toleranceSec: 300 }).result
+  ).toBe("ok");
+  expect(
+    verifyWebhookSignature(request, keys, { requireTimestamp: true, toleranceSec: 300 }).result
+  ).toBe("timestamp_missing");
+});
+
+test("verifyWebhookSignature accepts any active key and reports which matched", () => {
+  const now = 1_700_000_000_000;
+  const keys = [
+    key("old", "old-secret", null, now + 60_000),
+    key("new", "new-secret", now - 60_000, null),
+    key("future", "future-secret", now + 60_000, null),
+  ];
+  const policy = { requireTimestamp: false, toleranceSec: 300 };
+  const rawBody = "abc";
+  const signedWith = (secret: string, keyId: string | null = null) => ({
+    signature: computeHmac(secret, rawBody),
+    timestamp: null,
+    keyId,
+    rawBody,
+  });
+
+  expect(verifyWebhookSignature(signedWith("old-secret"), keys, policy, now)).toEqual({
+    result: "ok",
+    keyId: "old",
+  });
+  expect(verifyWebhookSignature(signedWith("new-secret"), keys, policy, now)).toEqual({
+    result: "ok",
+    keyId: "new",
+  });
+  expect(verifyWebhookSignature(signedWith("old-secret"), keys, policy, now + 60_000).result).toBe(
+    "invalid_signature"
+  );
+  expect(verifyWebhookSignature(signedWith("future-secret"), keys, policy, now).result).toBe(
+    "invalid_signature"
+  );
+  expect(verifyWebhookSignature(signedWith("old-secret", "new"), keys, policy, now).result).toBe(
+    "invalid_signature"
+  );
+  expect(verifyWebhookSignature(signedWith("new-secret", "nope"), keys, policy, now).result).toBe(
+    "unknown_key"
+  );
+});
@@ -0,0 +1,85 @@
+import { afterAll, expect, spyOn, test } from "bun:test";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { drainServer } from "../app/shutdown.ts";
+import { closeDb, getDb, initDb, insertMessage, openDb } from "../app/storage.ts";
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "lyftr-shutdown-"));
+
+afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+async function listen(
+  handler: http.RequestListener
+): Promise<{ server: http.Server; url: string }> {
+  const server = http.createServer(handler);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as { port: number };
+  return { server, url: `http://127.0.0.1:${port}` };
+}
+
+test("drainServer lets in-flight requests finish and refuses new ones", async () => {
+  const { server, url } = await listen((_req, res) => {
+    setTimeout(() => res.end("done"), 200);
+  });
+  const inFlight = fetch(url).then((r) => r.text());
+  await Bun.sleep(50);
+
+  const drained = drainServer(server, 5000);
+  await expect(fetch(url)).rejects.toThrow();
+  expect(await inFlight).toBe("done");
+  expect(await drained).toEqual({ timedOut: false });
+});
+
+test("drainServer cuts off requests still running at the timeout", async () => {
+  const { server, url } = await listen(() => {
+    // Never responds.
+  });
+  const stuck = fetch(url).then(
+    () => "answered",
+    () => "reset"
+  );
+  await Bun.sleep(50);
+
+  expect(await drainServer(server, 100)).toEqual({ timedOut: true });
+  expect(await stuck).toBe("reset");
+});
+
+test("file databases use WAL and closeDb checkpoints it", () => {
+  const file = path.join(tmp, "app.db");
+  initDb(`sqlite:${file}`, { synchronous: "full", busyTimeoutMs: 1234 });
+  const pragma = (name: string) => Object.values(getDb().prepare(`PRAGMA ${name}`).get()!)[0];
+  expect(pragma("journal_mode")).toBe("wal");
+  expect(pragma("synchronous")).toBe(2);
+  expect(pragma("busy_timeout")).toBe(1234);
+
+  insertMessage({
+    message_id: "w1",
+    from: "+1",
+    to: "+2",
+    ts: "2024-01-01T00:00:00Z",
+    type: "text",
+  });
+  expect(fs.statSync(`${file}-wal`).size).toBeGreaterThan(0);
+  closeDb();
+  expect(fs.statSync(`${file}-wal`).size).toBe(0);
+  expect(() => getDb()).toThrow("Database not initialized");
+});
+
+test("an unopenable database file fails unless the in-memory fallback is allowed", () => {
+  const blocker = path.join(tmp, "not-a-dir");
+  fs.writeFileSync(blocker, "");
+  const url = `sqlite:${path.join(blocker, "app.db")}`;
+  const consoleError = spyOn(console, "error").mockImplementation(() => {});
+
+  try {
+    expect(() => openDb(url)).toThrow("unable to open database file");
+    const fallback = openDb(url, { allowMemoryFallback: true });
+    expect(fallback.filename).toBe(":memory:");
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining("falling back"));
+    fallback.close();
+  } finally {
+    consoleError.mockRestore();
+  }
+});
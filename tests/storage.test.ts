@@ -0,0 +1,272 @@
+import { expect, test } from "bun:test";
+import type { MessageStatus, WebhookMessage, WebhookStatusEvent } from "../app/models.ts";
+import {
+  getMessageTimeseries,
+  initDb,
+  insertMessage,
+  insertStatusEvent,
+  listMessages,
+  type MessageCursor,
+  type MessageFilters,
+} from "../app/storage.ts";
+
+initDb("sqlite::memory:");
+
+const text = (id: string, from: string, ts: string, body: string): WebhookMessage => ({
+  message_id: id,
+  from,
+  to: "+14155550100",
+  ts,
+  type: "text",
+  text: body,
+});
+
+const list = (filters: Partial<MessageFilters>) =>
+  listMessages({ limit: 50, offset: 0, searchMode: "fts", sort: "time", order: "asc", ...filters });
+
+const ids = (filters: Partial<MessageFilters>) => list(filters).data.map((m) => m.message_id);
+
+test("full-text search ranks by relevance and highlights matches", () => {
+  const from = "+14155550111";
+  insertMessage(text("fts-1", from, "2024-05-01T00:00:00Z", "the deploy finished"));
+  insertMessage(text("fts-2", from, "2024-05-02T00:00:00Z", "deploy deploy deploy rollback"));
+  insertMessage(text("fts-3", from, "2024-05-03T00:00:00Z", "nothing to see"));
+
+  expect(ids({ from: [from], q: "deploy" })).toEqual(["fts-1", "fts-2"]);
+  expect(ids({ from: [from], q: "deploy", sort: "relevance" })).toEqual(["fts-2", "fts-1"]);
+  expect(ids({ from: [from], q: "deploy NOT rollback" })).toEqual(["fts-1"]);
+  expect(ids({ from: [from], q: "depl*" })).toEqual(["fts-1", "fts-2"]);
+
+  const [first] = list({ from: [from], q: "deploy" }).data;
+  expect(first!.snippet).toBe("the <mark>deploy</mark> finished");
+  expect(list({ from: [from], q: "deploy", searchMode: "substring" }).data[0]).not.toHaveProperty("snippet");
+});
+
+test("text that is not FTS5 syntax is searched as plain words", () => {
+  const from = "+14155550112";
+  insertMessage(text("punct-1", from, "2024-05-01T00:00:00Z", "see you hi-there, don't be late"));
+  insertMessage(text("punct-2", from, "2024-05-02T00:00:00Z", "call +1415 about foo:bar"));
+  insertMessage(text("punct-3", from, "2024-05-03T00:00:00Z", "hello and goodbye"));
+  insertMessage(text("punct-4", from, "2024-05-04T00:00:00Z", "hello there"));
+
+  expect(ids({ from: [from], q: "hi-there" })).toEqual(["punct-1"]);
+  expect(ids({ from: [from], q: "don't" })).toEqual(["punct-1"]);
+  expect(ids({ from: [from], q: "+1415" })).toEqual(["punct-2"]);
+  expect(ids({ from: [from], q: "foo:bar" })).toEqual(["punct-2"]);
+  expect(ids({ from: [from], q: "hello AND" })).toEqual(["punct-3"]);
+  expect(ids({ from: [from], q: 'say "hi' })).toEqual([]);
+
+  const [match] = list({ from: [from], q: "hi-there" }).data;
+  expect(match!.snippet).toBe("see you <mark>hi-there</mark>, don't be late");
+});
+
+test("status events attach to their message and the latest one is filterable", () => {
+  const from = "+14155550113";
+  insertMessage(text("st-1", from, "2024-05-01T00:00:00Z", "first"));
+  insertMessage(text("st-2", from, "2024-05-02T00:00:00Z", "second"));
+
+  const status = (messageId: string, value: MessageStatus, ts: string): WebhookStatusEvent => ({
+    type: "status",
+    message_id: messageId,
+    status: value,
+    ts,
+  });
+  expect(insertStatusEvent(status("st-1", "read", "2024-05-01T00:02:00Z"))).toEqual({
+    created: true,
+    dup: false,
+  });
+  // Arrives late but happened earlier, so it does not become the latest status.
+  insertStatusEvent(status("st-1", "delivered", "2024-05-01T00:01:00Z"));
+  expect(insertStatusEvent(status("st-1", "read", "2024-05-01T00:02:00Z"))).toEqual({
+    created: false,
+    dup: true,
+  });
+  insertStatusEvent({
+    ...status("st-2", "failed", "2024-05-02T00:01:00Z"),
+    recipient: "+14155550100",
+    error_code: "131026",
+    error_message: "undeliverable",
+  });
+
+  const [first, second] = list({ from: [from] }).data;
+  expect(first!.status).toBe("read");
+  const bare = { recipient: null, error_code: null, error_message: null };
+  expect(first!.statuses).toEqual([
+    { status: "delivered", ts: "2024-05-01T00:01:00Z", ...bare },
+    { status: "read", ts: "2024-05-01T00:02:00Z", ...bare },
+  ]);
+  expect(second!.status).toBe("failed");
+  expect(second!.statuses).toEqual([
+    {
+      status: "failed",
+      ts: "2024-05-02T00:01:00Z",
+      recipient: "+14155550100",
+      error_code: "131026",
+      error_message: "undeliverable",
+    },
+  ]);
+
+  expect(ids({ from: [from], status: "read" })).toEqual(["st-1"]);
+  expect(ids({ from: [from], status: "failed" })).toEqual(["st-2"]);
+  expect(ids({ from: [from], status: "delivered" })).toEqual([]);
+  expect(list({ from: [from], status: "read" }).total).toBe(1);
+});
+
+test("type filters by variant and q searches media captions", () => {
+  const from = "+14155550114";
+  const base = { from, to: "+14155550100" };
+  insertMessage(text("typ-1", from, "2024-05-01T00:00:00Z", "sunset photo coming"));
+  insertMessage({
+    ...base,
+    message_id: "typ-2",
+    ts: "2024-05-02T00:00:00Z",
+    type: "image",
+    media: { id: "media-2", mime_type: "image/jpeg", caption: "Sunset over the bay" },
+  });
+  insertMessage({
+    ...base,
+    message_id: "typ-3",
+    ts: "2024-05-03T00:00:00Z",
+    type: "document",
+    media: { id: "media-3", mime_type: "application/pdf", filename: "sunset.pdf" },
+  });
+  insertMessage({
+    ...base,
+    message_id: "typ-4",
+    ts: "2024-05-04T00:00:00Z",
+    type: "location",
+    location: { latitude: 37.8, longitude: -122.4, name: "Sunset district" },
+  });
+
+  expect(ids({ from: [from], type: "image" })).toEqual(["typ-2"]);
+  expect(ids({ from: [from], type: "location" })).toEqual(["typ-4"]);
+  expect(ids({ from: [from], type: "video" })).toEqual([]);
+
+  // Only text and captions are indexed, not file names or place names.
+  expect(ids({ from: [from], q: "sunset" })).toEqual(["typ-1", "typ-2"]);
+  expect(ids({ from: [from], q: "sunset", type: "image" })).toEqual(["typ-2"]);
+  expect(ids({ from: [from], q: "BAY", searchMode: "substring" })).toEqual(["typ-2"]);
+
+  const [image] = list({ from: [from], q: "bay" }).data;
+  expect(image!.media).toEqual({
+    id: "media-2",
+    mime_type: "image/jpeg",
+    caption: "Sunset over the bay",
+  });
+  expect(image!.text).toBeNull();
+  expect(image!.snippet).toBe("Sunset over the <mark>bay</mark>");
+});
+
+test("keyset pages walk forward and back in both orders across ts ties", () => {
+  const from = "+14155550115";
+  // Three messages share each of the first two timestamps; ties order by message_id.
+  const stamps = [1, 1, 1, 2, 2, 2, 3].map((day) => `2024-05-0${day}T00:00:00Z`);
+  // Inserted out of id order so rowid order cannot stand in for the sort.
+  for (const i of [4, 0, 6, 2, 5, 1, 3]) {
+    insertMessage(text(`key-${i}`, from, stamps[i]!, `message ${i}`));
+  }
+  const ascending = [0, 1, 2, 3, 4, 5, 6].map((i) => `key-${i}`);
+
+  for (const order of ["asc", "desc"] as const) {
+    const expected = order === "asc" ? ascending : [...ascending].reverse();
+    const page = (cursor?: MessageCursor) => list({ from: [from], order, limit: 3, cursor });
+
+    const forward: string[][] = [];
+    let current = page();
+    expect(current.prevCursor).toBeNull();
+    forward.push(current.data.map((m) => m.message_id));
+    while (current.nextCursor) {
+      current = page(current.nextCursor);
+      forward.push(current.data.map((m) => m.message_id));
+    }
+    expect(forward).toEqual([expected.slice(0, 3), expected.slice(3, 6), expected.slice(6)]);
+
+    const backward: string[][] = [current.data.map((m) => m.message_id)];
+    while (current.prevCursor) {
+      current = page(current.prevCursor);
+      backward.unshift(current.data.map((m) => m.message_id));
+    }
+    expect(backward).toEqual(forward);
+    expect(current.nextCursor).not.toBeNull();
+  }
+});
+
+test("listMessages filters by senders, recipients, time ranges and text", () => {
+  const [alice, bob] = ["+14155550116", "+14155550117"];
+  const add = (id: string, from: string, to: string, ts: string, body?: string) =>
+    insertMessage({ message_id: id, from, to, ts, type: "text", text: body });
+  add("flt-1", alice, "+14155550201", "2024-05-01T00:00:00Z", "one");
+  add("flt-2", bob, "+14155550202", "2024-05-02T00:00:00Z", "two");
+  add("flt-3", alice, "+14155550202", "2024-05-03T00:00:00Z", "");
+  add("flt-4", bob, "+14155550201", "2024-05-04T00:00:00Z");
+  const both = [alice, bob];
+
+  expect(ids({ from: both })).toEqual(["flt-1", "flt-2", "flt-3", "flt-4"]);
+  expect(ids({ from: both, order: "desc" })).toEqual(["flt-4", "flt-3", "flt-2", "flt-1"]);
+  expect(ids({ from: [alice] })).toEqual(["flt-1", "flt-3"]);
+  expect(ids({ from: both, to: ["+14155550201"] })).toEqual(["flt-1", "flt-4"]);
+  expect(ids({ to: ["+14155550201", "+14155550202"], from: [bob] })).toEqual(["flt-2", "flt-4"]);
+
+  // Both bounds are inclusive.
+  const range = { since: "2024-05-02T00:00:00Z", until: "2024-05-03T00:00:00Z" };
+  expect(ids({ from: both, ...range })).toEqual(["flt-2", "flt-3"]);
+  expect(ids({ from: both, until: "2024-05-01T23:59:59Z", order: "desc" })).toEqual(["flt-1"]);
+
+  // created_at is the ingest time, so every row falls after the message times.
+  expect(ids({ from: both, createdSince: "2024-05-05T00:00:00Z" })).toHaveLength(4);
+  expect(ids({ from: both, createdUntil: "2024-05-05T00:00:00Z" })).toEqual([]);
+
+  // Empty and missing text both count as no text.
+  expect(ids({ from: both, hasText: true })).toEqual(["flt-1", "flt-2"]);
+  expect(ids({ from: both, hasText: false })).toEqual(["flt-3", "flt-4"]);
+  expect(list({ from: both, hasText: false, limit: 1 }).total).toBe(2);
+});
+
+test("getMessageTimeseries zero-fills buckets, starts weeks on Monday and counts senders", () => {
+  const [a, b, c] = ["+14155550118", "+14155550119", "+14155550120"];
+  const senders = [a, b, c];
+  // 2024-05-06 is a Monday.
+  insertMessage(text("ts-1", a, "2024-05-06T10:15:00Z", "one"));
+  insertMessage(text("ts-2", b, "2024-05-06T10:45:00Z", "two"));
+  insertMessage(text("ts-3", a, "2024-05-06T12:05:00Z", "three"));
+  insertMessage(text("ts-4", c, "2024-05-08T08:00:00Z", "four"));
+  insertMessage(text("ts-5", a, "2024-05-12T23:59:59Z", "five"));
+  insertMessage(text("ts-6", b, "2024-05-13T00:00:00Z", "six"));
+
+  const hours = getMessageTimeseries({
+    interval: "hour",
+    from: senders,
+    since: "2024-05-06T10:00:00Z",
+    until: "2024-05-06T12:59:59Z",
+  });
+  expect(hours.buckets).toEqual([
+    { start: "2024-05-06T10:00:00Z", messages: 2, senders: 2 },
+    { start: "2024-05-06T11:00:00Z", messages: 0, senders: 0 },
+    { start: "2024-05-06T12:00:00Z", messages: 1, senders: 1 },
+  ]);
+
+  // Without bounds the range runs from the first to the last matching message.
+  const days = getMessageTimeseries({ interval: "day", from: senders }).buckets;
+  const day = (d: number) => `2024-05-${String(d).padStart(2, "0")}T00:00:00Z`;
+  expect(days.map((d) => d.start)).toEqual([6, 7, 8, 9, 10, 11, 12, 13].map(day));
+  expect(days.map((d) => d.messages)).toEqual([3, 0, 1, 0, 0, 0, 1, 1]);
+  expect(days[0]!.senders).toBe(2);
+
+  expect(getMessageTimeseries({ interval: "week", from: senders }).buckets).toEqual([
+    { start: "2024-05-06T00:00:00Z", messages: 5, senders: 3 },
+    { start: "2024-05-13T00:00:00Z", messages: 1, senders: 1 },
+  ]);
+  // A mid-week bound still reports the week from its Monday, counting only later messages.
+  const fromWednesday = getMessageTimeseries({
+    interval: "week",
+    from: senders,
+    since: "2024-05-08T00:00:00Z",
+  });
+  expect(fromWednesday.buckets[0]).toEqual({
+    start: "2024-05-06T00:00:00Z",
+    messages: 2,
+    senders: 2,
+  });
+
+  expect(getMessageTimeseries({ interval: "day", from: ["+14155550121"] }).buckets).toEqual([]);
+});
@@ -0,0 +1,145 @@
+import { expect, test } from "bun:test";
+import {
+  OtlpSpanExporter,
+  parseTraceparent,
+  RequestContext,
+  resolveRequestId,
+  type SpanExporter,
+  type SpanRecord,
+} from "../app/tracing.ts";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const PARENT_ID = "00f067aa0ba902b7";
+
+class MemoryExporter implements SpanExporter {
+  spans: SpanRecord[] = [];
+  export(span: SpanRecord) {
+    this.spans.push(span);
+  }
+  async flush() {}
+}
+
+test("parseTraceparent accepts valid headers and rejects malformed ones", () => {
+  expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01`)).toEqual({
+    traceId: TRACE_ID,
+    parentSpanId: PARENT_ID,
+    flags: 1,
+  });
+  // Future versions may append fields.
+  expect(parseTraceparent(`01-${TRACE_ID}-${PARENT_ID}-00-extra`)?.flags).toBe(0);
+
+  for (const bad of [
+    null,
+    "",
+    `00-${TRACE_ID}-${PARENT_ID}`,
+    `00-${TRACE_ID}-${PARENT_ID}-01-extra`,
+    `ff-${TRACE_ID}-${PARENT_ID}-01`,
+    `00-${"0".repeat(32)}-${PARENT_ID}-01`,
+    `00-${TRACE_ID}-${"0".repeat(16)}-01`,
+    `00-${TRACE_ID.slice(1)}-${PARENT_ID}-01`,
+  ]) {
+    expect(parseTraceparent(bad)).toBeNull();
+  }
+});
+
+test("resolveRequestId keeps sane caller ids and replaces the rest", () => {
+  expect(resolveRequestId("req-123")).toBe("req-123");
+  expect(resolveRequestId("has space")).not.toBe("has space");
+  expect(resolveRequestId("x".repeat(129))).toHaveLength(36);
+  expect(resolveRequestId(undefined)).toHaveLength(36);
+});
+
+test("child spans join the caller's trace and record failures", () => {
+  const exporter = new MemoryExporter();
+  const ctx = new RequestContext(
+    exporter,
+    "req-1",
+    parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01`)
+  );
+
+  expect(ctx.traceparent).toBe(`00-${TRACE_ID}-${ctx.spanId}-01`);
+  expect(ctx.span("storage.insert_message", () => 42, { rows: 1 })).toBe(42);
+  expect(() =>
+    ctx.span("webhook.validate", () => {
+      throw new Error("bad payload");
+    })
+  ).toThrow("bad payload");
+  ctx.end("POST /webhook", { "http.response.status_code": 200 }, false);
+  ctx.end("POST /webhook", {}, true);
+
+  const [insert, validate, server] = exporter.spans;
+  expect(exporter.spans).toHaveLength(3);
+  expect(insert).toMatchObject({
+    traceId: TRACE_ID,
+    parentSpanId: ctx.spanId,
+    name: "storage.insert_message",
+    kind: "internal",
+    status: "ok",
+    attributes: { rows: 1 },
+  });
+  expect(validate).toMatchObject({ status: "error", error: "bad payload" });
+  expect(server).toMatchObject({
+    spanId: ctx.spanId,
+    parentSpanId: PARENT_ID,
+    kind: "server",
+    status: "ok",
+  });
+});
+
+test("unsampled traces propagate but export nothing", async () => {
+  const exporter = new MemoryExporter();
+  const ctx = new RequestContext(
+    exporter,
+    "req-2",
+    parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-00`)
+  );
+  await ctx.span("storage.get_stats", async () => "done");
+  ctx.end("GET /stats", {}, false);
+  expect(ctx.traceparent.endsWith("-00")).toBe(true);
+  expect(exporter.spans).toEqual([]);
+});
+
+test("OtlpSpanExporter posts OTLP/HTTP JSON to the collector", async () => {
+  const received: any[] = [];
+  // Local stand-in for an OpenTelemetry collector.
+  const collector = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      received.push({ path: new URL(req.url).pathname, body: await req.json() });
+      return new Response("{}");
+    },
+  });
+  const exporter = new OtlpSpanExporter(
+    `http://localhost:${collector.port}/v1/traces`,
+    "test-service",
+    "INFO",
+    60_000
+  );
+  try {
+    const ctx = new RequestContext(exporter, "req-3", null);
+    ctx.span("storage.list_messages", () => [], { limit: 50, ratio: 0.5, cached: false });
+    ctx.end("GET /messages", { "http.route": "/messages" }, true);
+    await exporter.flush();
+  } finally {
+    exporter.close();
+    collector.stop(true);
+  }
+
+  expect(received).toHaveLength(1);
+  expect(received[0].path).toBe("/v1/traces");
+  const [resourceSpans] = received[0].body.resourceSpans;
+  expect(resourceSpans.resource.attributes).toEqual([
+    { key: "service.name", value: { stringValue: "test-service" } },
+  ]);
+  const [child, server] = resourceSpans.scopeSpans[0].spans;
+  expect(child.parentSpanId).toBe(server.spanId);
+  expect(child.traceId).toBe(server.traceId);
+  expect(child.kind).toBe(1);
+  expect(child.attributes).toEqual([
+    { key: "limit", value: { intValue: "50" } },
+    { key: "ratio", value: { doubleValue: 0.5 } },
+    { key: "cached", value: { boolValue: false } },
+  ]);
+  expect(server).toMatchObject({ kind: 2, parentSpanId: "", status: { code: 2 } });
+  expect(BigInt(server.endTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(server.startTimeUnixNano));
+});
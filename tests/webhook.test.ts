@@ -0,0 +1,140 @@
+import { afterAll, expect, test } from "bun:test";
+import { createHmac } from "node:crypto";
+import type http from "http";
+import { renderMetrics } from "../app/metrics.ts";
+import { getDb, getInboxStats, initDb } from "../app/storage.ts";
+
+// Same settings as tests/openapi.test.ts: main.ts is imported once per run.
+const testEnv: Record<string, string> = {
+  DATABASE_URL: "sqlite::memory:",
+  WEBHOOK_SECRET: "testsecret",
+  TRACING_EXPORTER: "none",
+  LOG_LEVEL: "ERROR",
+};
+const savedEnv = Object.fromEntries(Object.keys(testEnv).map((name) => [name, Bun.env[name]]));
+Object.assign(Bun.env, testEnv);
+const { app, config } = await import("../app/main.ts");
+for (const [name, value] of Object.entries(savedEnv)) {
+  if (value === undefined) delete Bun.env[name];
+  else Bun.env[name] = value;
+}
+initDb("sqlite::memory:");
+
+const server: http.Server = app.listen(0, "127.0.0.1");
+await new Promise<void>((resolve) => server.once("listening", resolve));
+const url = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+afterAll(() => {
+  server.close();
+});
+
+function send(body: unknown, path = "/webhook"): Promise<Response> {
+  const raw = typeof body === "string" ? body : JSON.stringify(body);
+  return fetch(`${url}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Signature": createHmac("sha256", "testsecret").update(raw).digest("hex"),
+    },
+    body: raw,
+  });
+}
+
+function sendSigned(body: unknown, timestamp: number): Promise<Response> {
+  const raw = JSON.stringify(body);
+  const signature = createHmac("sha256", "testsecret").update(`${timestamp}.${raw}`);
+  return fetch(`${url}/webhook`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Signature-Timestamp": String(timestamp),
+      "X-Signature": signature.digest("hex"),
+    },
+    body: raw,
+  });
+}
+
+const TS = "2024-05-01T00:00:00Z";
+
+const message = (id: string, from: string) => ({
+  message_id: id,
+  from,
+  to: "+14155550100",
+  ts: TS,
+  text: "hello",
+});
+
+test("inbox mode applies the per-sender limit before enqueueing", async () => {
+  config.webhookIngestMode = "inbox";
+  try {
+    // The default bucket holds 20 tokens and refills one per second.
+    const statuses: number[] = [];
+    for (let i = 0; i < 30; i++) {
+      const from = i % 2 === 0 ? "+1 415 555 0123" : "+14155550123";
+      statuses.push((await send(message(`lim-${i}`, from))).status);
+    }
+    expect(statuses.slice(0, 20)).toEqual(Array(20).fill(202));
+    expect(statuses).toContain(429);
+
+    const limited = await send(message("lim-last", "+14155550123"));
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("retry-after")).not.toBeNull();
+    expect(await limited.json()).toMatchObject({ detail: "rate limited" });
+
+    const receipt = { type: "status", message_id: "lim-0", status: "read", ts: TS };
+    expect((await send(receipt)).status).toBe(202);
+    expect((await send(message("lim-other", "+14155550124"))).status).toBe(202);
+    expect((await send("not json")).status).toBe(202);
+
+    const queued = statuses.filter((s) => s === 202).length + 3;
+    expect(getInboxStats().pending).toBe(queued);
+  } finally {
+    config.webhookIngestMode = "sync";
+  }
+});
+
+test("only accepted signatures count as key usage", async () => {
+  const matchesLine = /^webhook_signature_key_matches_total\{key_id="default"\} (\d+)$/m;
+  const matches = () => Number(renderMetrics().match(matchesLine)?.[1] ?? 0);
+  const before = matches();
+  const now = Math.floor(Date.now() / 1000);
+  const body = message("sig-1", "+14155550160");
+
+  expect((await sendSigned(body, now)).status).toBe(200);
+  const replayed = await sendSigned(body, now);
+  expect(await replayed.json()).toEqual({ detail: "signature already used" });
+  const stale = await sendSigned(message("sig-2", "+14155550160"), now - 3600);
+  expect(await stale.json()).toEqual({ detail: "signature timestamp outside tolerance" });
+  expect(matches()).toBe(before + 1);
+});
+
+test("a rate-limited timestamped request can be retried with the same signature", async () => {
+  const from = "+14155550170";
+  for (let i = 0; i < 20; i++) {
+    expect((await send(message(`retry-${i}`, from))).status).toBe(200);
+  }
+  const now = Math.floor(Date.now() / 1000);
+  const body = message("retry-last", from);
+  expect((await sendSigned(body, now)).status).toBe(429);
+
+  // The bucket refills one token per second.
+  await Bun.sleep(1100);
+  const retried = await sendSigned(body, now);
+  expect(retried.status).toBe(200);
+  expect(await retried.json()).toEqual({ status: "ok", result: "created" });
+  expect((await sendSigned(body, now)).status).toBe(401);
+});
+
+test("a timestamped request that fails in storage can be retried", async () => {
+  const db = getDb();
+  db.run(
+    "CREATE TEMP TRIGGER fail_insert BEFORE INSERT ON messages BEGIN SELECT RAISE(ABORT, 'disk full'); END"
+  );
+  const now = Math.floor(Date.now() / 1000);
+  const body = message("fail-1", "+14155550171");
+  try {
+    expect((await sendSigned(body, now)).status).toBe(500);
+  } finally {
+    db.run("DROP TRIGGER fail_insert");
+  }
+  expect((await sendSigned(body, now)).status).toBe(200);
+});